@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { ListChecks, AlertCircle } from 'lucide-react';
+import type { AnswerKeyReport } from '../lib/answer-key';
+
+interface AnswerKeyPanelProps {
+  markedRegionCount: number;
+  isApplying: boolean;
+  report: AnswerKeyReport | null;
+  onApply: (overwrite: boolean) => void;
+}
+
+export default function AnswerKeyPanel({
+  markedRegionCount,
+  isApplying,
+  report,
+  onApply,
+}: AnswerKeyPanelProps) {
+  const [overwrite, setOverwrite] = useState(false);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <ListChecks className="h-5 w-5 text-gray-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Answer Key</h3>
+        </div>
+        <button
+          onClick={() => onApply(overwrite)}
+          disabled={isApplying}
+          className="px-4 py-2 bg-rose-600 text-white text-sm rounded-lg hover:bg-rose-700 transition-colors disabled:opacity-50"
+        >
+          {isApplying ? 'Reading answer key...' : 'Apply answer key'}
+        </button>
+      </div>
+
+      <p className="text-xs text-gray-500 mb-3">
+        {markedRegionCount > 0
+          ? `Reads the ${markedRegionCount} marked answer-key region${markedRegionCount === 1 ? '' : 's'}.`
+          : 'No answer-key regions are marked, so the PDF text is searched for an answer-key page.'}
+        {' '}Questions are matched by their printed number, or by position when it is missing.
+      </p>
+
+      <label className="flex items-center space-x-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={overwrite}
+          onChange={(e) => setOverwrite(e.target.checked)}
+          disabled={isApplying}
+          className="text-rose-600 focus:ring-rose-500"
+        />
+        <span>Overwrite answers that are already selected</span>
+      </label>
+
+      {report && (
+        <div className="mt-4 space-y-3">
+          <p className="text-sm text-gray-700">
+            From {report.source}: {report.applied} answer{report.applied === 1 ? '' : 's'} filled in
+            {report.unchanged > 0 && `, ${report.unchanged} already matched`}.
+          </p>
+
+          {report.conflicts.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded p-3">
+              <div className="flex items-center space-x-2 mb-1">
+                <AlertCircle className="h-4 w-4 text-red-600" />
+                <span className="text-sm font-medium text-red-800">
+                  {report.conflicts.length} conflict{report.conflicts.length === 1 ? '' : 's'} to review
+                </span>
+              </div>
+              <ul className="text-xs text-red-700 space-y-1 max-h-40 overflow-y-auto">
+                {report.conflicts.map(conflict => (
+                  <li key={conflict.mcqId}>Q{conflict.questionNumber}: {conflict.reason}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {report.unanswered.length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 rounded p-3">
+              <p className="text-sm font-medium text-amber-800 mb-1">
+                No answer in the key for {report.unanswered.length} question{report.unanswered.length === 1 ? '' : 's'}
+              </p>
+              <p className="text-xs text-amber-700">
+                {report.unanswered.map(item => `Q${item.questionNumber}`).join(', ')}
+              </p>
+            </div>
+          )}
+
+          {report.unmatched.length > 0 && (
+            <p className="text-xs text-gray-500">
+              The key also lists {report.unmatched.length} question{report.unmatched.length === 1 ? '' : 's'} that
+              were not extracted: {report.unmatched.join(', ')}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,18 +1,110 @@
-import React, { useState, useCallback } from 'react';
-import { Key, Eye, EyeOff, CheckCircle, AlertCircle, ExternalLink } from 'lucide-react';
-import { GeminiExtractor } from '../lib/gemini-utils';
+import React, { useState, useCallback, useEffect } from 'react';
+import {
+  Key, Eye, EyeOff, CheckCircle, AlertCircle, ExternalLink, Settings2, ChevronDown, ChevronUp, Server
+} from 'lucide-react';
+import { DEFAULT_GEMINI_SETTINGS, GeminiExtractor } from '../lib/gemini-utils';
+import type { GeminiSettings } from '../lib/gemini-utils';
+import { withProxyBaseUrl } from '../lib/gemini-proxy';
+import type { GeminiProxyStatus } from '../lib/gemini-proxy';
 
 interface ApiKeyManagerProps {
   onApiKeySet: (apiKey: string) => void;
   currentApiKey?: string;
+  settings: GeminiSettings;
+  onSettingsChange: (settings: GeminiSettings) => void;
+  // When the server proxy is enabled the key lives on the server and can't be entered here
+  proxyStatus?: GeminiProxyStatus;
 }
 
-export default function ApiKeyManager({ onApiKeySet, currentApiKey }: ApiKeyManagerProps) {
+// Served by pages/api/mock-gemini from the fixtures in fixtures/gemini
+const MOCK_GEMINI_BASE_URL = '/api/mock-gemini';
+
+// Form fields are kept as strings so optional numbers can be left blank
+interface SettingsDraft {
+  model: string;
+  temperature: string;
+  maxOutputTokens: string;
+  baseUrl: string;
+}
+
+const toDraft = (settings: GeminiSettings): SettingsDraft => ({
+  model: settings.model,
+  temperature: settings.temperature?.toString() ?? '',
+  maxOutputTokens: settings.maxOutputTokens?.toString() ?? '',
+  baseUrl: settings.baseUrl ?? '',
+});
+
+const parseDraft = (draft: SettingsDraft): { settings?: GeminiSettings; error?: string } => {
+  const temperature = draft.temperature.trim() ? Number(draft.temperature) : undefined;
+  if (temperature !== undefined && (isNaN(temperature) || temperature < 0 || temperature > 2)) {
+    return { error: 'Temperature must be a number between 0 and 2' };
+  }
+
+  const maxOutputTokens = draft.maxOutputTokens.trim() ? Number(draft.maxOutputTokens) : undefined;
+  if (maxOutputTokens !== undefined && (!Number.isInteger(maxOutputTokens) || maxOutputTokens < 1)) {
+    return { error: 'Max output tokens must be a positive whole number' };
+  }
+
+  const baseUrl = draft.baseUrl.trim().replace(/\/+$/, '') || undefined;
+  if (baseUrl && !/^(https?:\/\/|\/)/.test(baseUrl)) {
+    return { error: 'Base URL must start with http://, https:// or / (for this app\'s own API routes)' };
+  }
+
+  return {
+    settings: {
+      model: draft.model.trim() || DEFAULT_GEMINI_SETTINGS.model,
+      temperature,
+      maxOutputTokens,
+      baseUrl,
+    }
+  };
+};
+
+export default function ApiKeyManager({
+  onApiKeySet,
+  currentApiKey,
+  settings,
+  onSettingsChange,
+  proxyStatus,
+}: ApiKeyManagerProps) {
+  const proxyMode = proxyStatus?.enabled ?? false;
   const [apiKey, setApiKey] = useState(currentApiKey || '');
   const [showApiKey, setShowApiKey] = useState(false);
   const [isValidating, setIsValidating] = useState(false);
   const [validationStatus, setValidationStatus] = useState<'idle' | 'valid' | 'invalid'>('idle');
   const [showSetup, setShowSetup] = useState(!currentApiKey);
+  const [showSettings, setShowSettings] = useState(false);
+  const [settingsDraft, setSettingsDraft] = useState<SettingsDraft>(() => toDraft(settings));
+  const [settingsError, setSettingsError] = useState<string | null>(null);
+  const [settingsSaved, setSettingsSaved] = useState(false);
+
+  // The proxy check finishes after mount, so the panel may already be showing key entry
+  useEffect(() => {
+    if (proxyMode) setShowSetup(false);
+  }, [proxyMode]);
+
+  const updateDraft = (updates: Partial<SettingsDraft>) => {
+    setSettingsDraft(prev => ({ ...prev, ...updates }));
+    setSettingsError(null);
+    setSettingsSaved(false);
+  };
+
+  const handleSaveSettings = () => {
+    const { settings: parsed, error } = parseDraft(settingsDraft);
+    if (!parsed) {
+      setSettingsError(error ?? 'Invalid settings');
+      return;
+    }
+    onSettingsChange(parsed);
+    setSettingsDraft(toDraft(parsed));
+    setSettingsSaved(true);
+  };
+
+  const handleResetSettings = () => {
+    setSettingsDraft(toDraft(DEFAULT_GEMINI_SETTINGS));
+    setSettingsError(null);
+    setSettingsSaved(false);
+  };
 
   const validateAndSetApiKey = useCallback(async () => {
     if (!apiKey.trim()) {
@@ -24,7 +116,8 @@ export default function ApiKeyManager({ onApiKeySet, currentApiKey }: ApiKeyMana
     setValidationStatus('idle');
 
     try {
-      const extractor = new GeminiExtractor();
+      // Validate against the configured model and endpoint, not just the defaults
+      const extractor = new GeminiExtractor(undefined, { settings });
       const isValid = await extractor.validateApiKey(apiKey.trim());
       
       if (isValid) {
@@ -43,7 +136,7 @@ export default function ApiKeyManager({ onApiKeySet, currentApiKey }: ApiKeyMana
     } finally {
       setIsValidating(false);
     }
-  }, [apiKey, onApiKeySet]);
+  }, [apiKey, settings, onApiKeySet]);
 
   const handleRemoveApiKey = useCallback(() => {
     setApiKey('');
@@ -58,19 +151,27 @@ export default function ApiKeyManager({ onApiKeySet, currentApiKey }: ApiKeyMana
       <div className="bg-green-50 border border-green-200 rounded-lg p-4">
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-2">
-            <CheckCircle className="h-5 w-5 text-green-600" />
+            {proxyMode ? <Server className="h-5 w-5 text-green-600" /> : <CheckCircle className="h-5 w-5 text-green-600" />}
             <span className="text-sm font-medium text-green-800">
-              Gemini API Connected
-            </span>
-            <span className="text-xs text-green-600">
-              (Key: ****{currentApiKey.slice(-4)})
+              {proxyMode ? 'Gemini API via Server' : 'Gemini API Connected'}
             </span>
+            {proxyMode ? (
+              <span className="text-xs text-green-600">
+                (Key managed by the server, model: {withProxyBaseUrl(settings, proxyStatus as GeminiProxyStatus).model}
+                {proxyStatus?.rateLimit ? `, up to ${proxyStatus.rateLimit.limit} requests/min` : ''})
+              </span>
+            ) : (
+              <span className="text-xs text-green-600">
+                (Key: ****{currentApiKey.slice(-4)}, model: {settings.model}
+                {settings.baseUrl ? `, via ${settings.baseUrl}` : ''})
+              </span>
+            )}
           </div>
           <button
             onClick={() => setShowSetup(true)}
             className="text-sm text-green-700 hover:text-green-900 underline"
           >
-            Change Key
+            {proxyMode ? 'Model Settings' : 'Change Key / Settings'}
           </button>
         </div>
       </div>
@@ -87,120 +188,249 @@ export default function ApiKeyManager({ onApiKeySet, currentApiKey }: ApiKeyMana
       </div>
 
       <div className="space-y-4">
-        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-          <div className="flex items-start space-x-2">
-            <AlertCircle className="h-5 w-5 text-blue-600 mt-0.5 flex-shrink-0" />
-            <div className="text-sm text-blue-800">
-              <p className="font-medium mb-2">Why Gemini API?</p>
-              <ul className="space-y-1 text-xs">
-                <li>• Superior OCR accuracy for complex mathematical content</li>
-                <li>• Native LaTeX and symbol recognition</li>
-                <li>• Better handling of academic document layouts</li>
-                <li>• Advanced text understanding and formatting</li>
-              </ul>
+        {proxyMode ? (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+            <div className="flex items-start space-x-2">
+              <Server className="h-5 w-5 text-green-600 mt-0.5 flex-shrink-0" />
+              <p className="text-sm text-green-800">
+                This deployment keeps the Gemini API key on the server. Page crops are sent to Google
+                through this app, so no key is needed here.
+              </p>
             </div>
           </div>
-        </div>
+        ) : (
+          <>
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+              <div className="flex items-start space-x-2">
+                <AlertCircle className="h-5 w-5 text-blue-600 mt-0.5 flex-shrink-0" />
+                <div className="text-sm text-blue-800">
+                  <p className="font-medium mb-2">Why Gemini API?</p>
+                  <ul className="space-y-1 text-xs">
+                    <li>• Superior OCR accuracy for complex mathematical content</li>
+                    <li>• Native LaTeX and symbol recognition</li>
+                    <li>• Better handling of academic document layouts</li>
+                    <li>• Advanced text understanding and formatting</li>
+                  </ul>
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Google Gemini API Key
+                </label>
+                <div className="relative">
+                  <input
+                    type={showApiKey ? 'text' : 'password'}
+                    value={apiKey}
+                    onChange={(e) => {
+                      setApiKey(e.target.value);
+                      setValidationStatus('idle');
+                    }}
+                    placeholder="Enter your Gemini API key..."
+                    className="w-full px-3 py-2 pr-20 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    disabled={isValidating}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowApiKey(!showApiKey)}
+                    className="absolute right-12 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                  >
+                    {showApiKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                  </button>
+              
+                  {validationStatus === 'valid' && (
+                    <CheckCircle className="absolute right-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-green-500" />
+                  )}
+                  {validationStatus === 'invalid' && (
+                    <AlertCircle className="absolute right-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-red-500" />
+                  )}
+                </div>
+            
+                {validationStatus === 'invalid' && (
+                  <p className="mt-1 text-sm text-red-600">
+                    Invalid API key. Please check your key and try again.
+                  </p>
+                )}
+              </div>
 
-        <div className="space-y-3">
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Google Gemini API Key
-            </label>
-            <div className="relative">
-              <input
-                type={showApiKey ? 'text' : 'password'}
-                value={apiKey}
-                onChange={(e) => {
-                  setApiKey(e.target.value);
-                  setValidationStatus('idle');
-                }}
-                placeholder="Enter your Gemini API key..."
-                className="w-full px-3 py-2 pr-20 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                disabled={isValidating}
-              />
               <button
-                type="button"
-                onClick={() => setShowApiKey(!showApiKey)}
-                className="absolute right-12 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                onClick={validateAndSetApiKey}
+                disabled={!apiKey.trim() || isValidating}
+                className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-2"
               >
-                {showApiKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                {isValidating ? (
+                  <>
+                    <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                    <span>Validating...</span>
+                  </>
+                ) : (
+                  <>
+                    <CheckCircle className="h-4 w-4" />
+                    <span>Connect & Validate</span>
+                  </>
+                )}
               </button>
-              
-              {validationStatus === 'valid' && (
-                <CheckCircle className="absolute right-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-green-500" />
-              )}
-              {validationStatus === 'invalid' && (
-                <AlertCircle className="absolute right-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-red-500" />
+
+              {currentApiKey && (
+                <button
+                  onClick={handleRemoveApiKey}
+                  className="w-full px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors flex items-center justify-center space-x-2"
+                >
+                  <AlertCircle className="h-4 w-4" />
+                  <span>Remove API Key</span>
+                </button>
               )}
             </div>
-            
-            {validationStatus === 'invalid' && (
-              <p className="mt-1 text-sm text-red-600">
-                Invalid API key. Please check your key and try again.
-              </p>
-            )}
-          </div>
+          </>
+        )}
 
+        <div className="border-t pt-4">
           <button
-            onClick={validateAndSetApiKey}
-            disabled={!apiKey.trim() || isValidating}
-            className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-2"
+            type="button"
+            onClick={() => setShowSettings(!showSettings)}
+            className="w-full flex items-center justify-between text-sm font-medium text-gray-700"
           >
-            {isValidating ? (
-              <>
-                <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                <span>Validating...</span>
-              </>
-            ) : (
-              <>
-                <CheckCircle className="h-4 w-4" />
-                <span>Connect & Validate</span>
-              </>
-            )}
+            <span className="flex items-center space-x-2">
+              <Settings2 className="h-4 w-4" />
+              <span>Model & Endpoint Settings</span>
+            </span>
+            {showSettings ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
           </button>
 
-          {currentApiKey && (
-            <button
-              onClick={handleRemoveApiKey}
-              className="w-full px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors flex items-center justify-center space-x-2"
-            >
-              <AlertCircle className="h-4 w-4" />
-              <span>Remove API Key</span>
-            </button>
+          {showSettings && (
+            <div className="mt-3 space-y-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Model</label>
+                {proxyMode && proxyStatus?.models?.length ? (
+                  // The proxy only forwards to the models the server allows
+                  <select
+                    value={withProxyBaseUrl({ ...settings, model: settingsDraft.model }, proxyStatus).model}
+                    onChange={(e) => updateDraft({ model: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {proxyStatus.models.map(model => (
+                      <option key={model} value={model}>{model}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <input
+                    type="text"
+                    value={settingsDraft.model}
+                    onChange={(e) => updateDraft({ model: e.target.value })}
+                    placeholder={DEFAULT_GEMINI_SETTINGS.model}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Temperature</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={2}
+                    step={0.1}
+                    value={settingsDraft.temperature}
+                    onChange={(e) => updateDraft({ temperature: e.target.value })}
+                    placeholder="Model default"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Max output tokens</label>
+                  <input
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={settingsDraft.maxOutputTokens}
+                    onChange={(e) => updateDraft({ maxOutputTokens: e.target.value })}
+                    placeholder="Model default"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+              {!proxyMode && (
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Base URL</label>
+                  <input
+                    type="text"
+                    value={settingsDraft.baseUrl}
+                    onChange={(e) => updateDraft({ baseUrl: e.target.value })}
+                    placeholder="https://generativelanguage.googleapis.com"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    Leave blank to call Google directly. Set it to use a proxy or a local stand-in server.
+                  </p>
+                  <button
+                    type="button"
+                    onClick={() => updateDraft({ baseUrl: MOCK_GEMINI_BASE_URL })}
+                    className="mt-1 text-xs text-blue-600 hover:text-blue-800 underline"
+                  >
+                    Use the offline mock server (replays fixtures, any API key works)
+                  </button>
+                </div>
+              )}
+
+              {settingsError && <p className="text-xs text-red-600">{settingsError}</p>}
+              {settingsSaved && <p className="text-xs text-green-600">Settings saved</p>}
+
+              <div className="flex space-x-2">
+                <button
+                  type="button"
+                  onClick={handleSaveSettings}
+                  className="px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700"
+                >
+                  Save Settings
+                </button>
+                <button
+                  type="button"
+                  onClick={handleResetSettings}
+                  className="px-3 py-1 bg-gray-200 text-gray-800 text-sm rounded hover:bg-gray-300"
+                >
+                  Reset to Defaults
+                </button>
+              </div>
+            </div>
           )}
         </div>
 
-        <div className="border-t pt-4">
-          <div className="text-sm text-gray-600 space-y-2">
-            <p className="font-medium">How to get your Gemini API Key:</p>
-            <ol className="list-decimal list-inside space-y-1 text-xs ml-2">
-              <li>Visit Google AI Studio</li>
-              <li>Sign in with your Google account</li>
-              <li>Create a new API key</li>
-              <li>Copy and paste it above</li>
-            </ol>
-            <a
-              href="https://aistudio.google.com/app/apikey"
-              target="_blank"
-              rel="noopener noreferrer"
-              className="inline-flex items-center space-x-1 text-blue-600 hover:text-blue-800 text-xs underline"
-            >
-              <ExternalLink className="h-3 w-3" />
-              <span>Get API Key</span>
-            </a>
-          </div>
-        </div>
+        {!proxyMode && (
+          <>
+            <div className="border-t pt-4">
+              <div className="text-sm text-gray-600 space-y-2">
+                <p className="font-medium">How to get your Gemini API Key:</p>
+                <ol className="list-decimal list-inside space-y-1 text-xs ml-2">
+                  <li>Visit Google AI Studio</li>
+                  <li>Sign in with your Google account</li>
+                  <li>Create a new API key</li>
+                  <li>Copy and paste it above</li>
+                </ol>
+                <a
+                  href="https://aistudio.google.com/app/apikey"
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center space-x-1 text-blue-600 hover:text-blue-800 text-xs underline"
+                >
+                  <ExternalLink className="h-3 w-3" />
+                  <span>Get API Key</span>
+                </a>
+              </div>
+            </div>
 
-        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3">
-          <div className="flex items-start space-x-2">
-            <AlertCircle className="h-4 w-4 text-yellow-600 mt-0.5 flex-shrink-0" />
-            <div className="text-xs text-yellow-800">
-              <p className="font-medium">Privacy & Security:</p>
-              <p>Your API key is stored only in your browser session and never sent to our servers. It's used directly to communicate with Google's API from your browser.</p>
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+              <div className="flex items-start space-x-2">
+                <AlertCircle className="h-4 w-4 text-yellow-600 mt-0.5 flex-shrink-0" />
+                <div className="text-xs text-yellow-800">
+                  <p className="font-medium">Privacy & Security:</p>
+                  <p>Your API key is stored only in your browser session and never sent to our servers. It's used directly to communicate with Google's API from your browser.</p>
+                </div>
+              </div>
             </div>
-          </div>
-        </div>
+          </>
+        )}
       </div>
     </div>
   );
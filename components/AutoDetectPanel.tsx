@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { Wand2, Check, X } from 'lucide-react';
+import { LAYOUT_DETECTORS } from '../lib/layout-detection';
+import type { LayoutDetectorId } from '../lib/types';
+
+type AutoDetectScope = 'current' | 'range' | 'all';
+
+interface AutoDetectPanelProps {
+  currentPage: number;
+  numPages: number;
+  hasApiKey: boolean;
+  suggestionCount: number;
+  isDetecting: boolean;
+  onDetect: (detector: LayoutDetectorId, pages: { from: number; to: number }) => void;
+  onAcceptAll: () => void;
+  onRejectAll: () => void;
+}
+
+export default function AutoDetectPanel({
+  currentPage,
+  numPages,
+  hasApiKey,
+  suggestionCount,
+  isDetecting,
+  onDetect,
+  onAcceptAll,
+  onRejectAll,
+}: AutoDetectPanelProps) {
+  const [scope, setScope] = useState<AutoDetectScope>('current');
+  const [rangeFrom, setRangeFrom] = useState(1);
+  const [rangeTo, setRangeTo] = useState(numPages);
+  const [detector, setDetector] = useState<LayoutDetectorId>(hasApiKey ? 'gemini' : 'heuristic');
+
+  const detectorUnavailable = LAYOUT_DETECTORS[detector].requiresApiKey && !hasApiKey;
+
+  const handleDetect = () => {
+    if (scope === 'current') {
+      onDetect(detector, { from: currentPage, to: currentPage });
+    } else if (scope === 'range') {
+      onDetect(detector, { from: rangeFrom, to: rangeTo });
+    } else {
+      onDetect(detector, { from: 1, to: numPages });
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">
+        Auto-detect Questions
+      </h3>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <label className="text-sm text-gray-600">Detector:</label>
+          <select
+            value={detector}
+            onChange={(e) => setDetector(e.target.value as LayoutDetectorId)}
+            disabled={isDetecting}
+            className="px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {Object.values(LAYOUT_DETECTORS).map((info) => (
+              <option key={info.id} value={info.id}>{info.name}</option>
+            ))}
+          </select>
+        </div>
+        <p className="text-xs text-gray-500">{LAYOUT_DETECTORS[detector].description}</p>
+
+        <div className="space-y-1 text-sm text-gray-700">
+          <label className="flex items-center space-x-2">
+            <input
+              type="radio"
+              name="auto-detect-scope"
+              checked={scope === 'current'}
+              onChange={() => setScope('current')}
+            />
+            <span>Current page ({currentPage})</span>
+          </label>
+          <label className="flex items-center space-x-2">
+            <input
+              type="radio"
+              name="auto-detect-scope"
+              checked={scope === 'range'}
+              onChange={() => setScope('range')}
+            />
+            <span>Pages</span>
+            <input
+              type="number"
+              min={1}
+              max={numPages}
+              value={rangeFrom}
+              onChange={(e) => setRangeFrom(Number(e.target.value))}
+              disabled={scope !== 'range'}
+              className="w-16 px-2 py-1 border border-gray-300 rounded text-sm"
+            />
+            <span>to</span>
+            <input
+              type="number"
+              min={1}
+              max={numPages}
+              value={rangeTo}
+              onChange={(e) => setRangeTo(Number(e.target.value))}
+              disabled={scope !== 'range'}
+              className="w-16 px-2 py-1 border border-gray-300 rounded text-sm"
+            />
+          </label>
+          <label className="flex items-center space-x-2">
+            <input
+              type="radio"
+              name="auto-detect-scope"
+              checked={scope === 'all'}
+              onChange={() => setScope('all')}
+            />
+            <span>Whole document ({numPages} pages)</span>
+          </label>
+        </div>
+
+        {detectorUnavailable && (
+          <p className="text-xs text-red-600">Requires a Gemini API key</p>
+        )}
+
+        <button
+          onClick={handleDetect}
+          disabled={isDetecting || detectorUnavailable}
+          className="w-full px-4 py-2 bg-amber-500 text-white rounded-lg hover:bg-amber-600 transition-colors disabled:opacity-50 flex items-center justify-center space-x-2"
+        >
+          <Wand2 className="h-4 w-4" />
+          <span>{isDetecting ? 'Detecting...' : 'Auto-detect'}</span>
+        </button>
+
+        {suggestionCount > 0 && (
+          <div className="bg-amber-50 border border-amber-200 rounded p-3">
+            <p className="text-xs text-amber-800 mb-2">
+              {suggestionCount} suggested region{suggestionCount === 1 ? '' : 's'} awaiting review.
+              Drag to adjust, or accept/reject them on the page.
+            </p>
+            <div className="flex space-x-2">
+              <button
+                onClick={onAcceptAll}
+                className="flex items-center space-x-1 px-2 py-1 bg-green-600 text-white text-xs rounded hover:bg-green-700"
+              >
+                <Check className="h-3 w-3" />
+                <span>Accept all</span>
+              </button>
+              <button
+                onClick={onRejectAll}
+                className="flex items-center space-x-1 px-2 py-1 bg-gray-600 text-white text-xs rounded hover:bg-gray-700"
+              >
+                <X className="h-3 w-3" />
+                <span>Reject all</span>
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Database, Trash2 } from 'lucide-react';
+import { ExtractionCache } from '../lib/extraction-cache';
+import type { CacheStats } from '../lib/extraction-cache';
+import { LocalStorage } from '../lib/storage-utils';
+
+interface CachePanelProps {
+  bypassCache: boolean;
+  onBypassCacheChange: (bypass: boolean) => void;
+  disabled?: boolean;
+}
+
+export default function CachePanel({
+  bypassCache,
+  onBypassCacheChange,
+  disabled = false,
+}: CachePanelProps) {
+  const [stats, setStats] = useState<CacheStats>({ entries: 0, sizeBytes: 0, hits: 0, misses: 0 });
+
+  const refreshStats = useCallback(() => {
+    setStats(ExtractionCache.getStats());
+  }, []);
+
+  // Lookups happen inside the extractor, so poll rather than wire up events
+  useEffect(() => {
+    refreshStats();
+    const interval = setInterval(refreshStats, 5000);
+    return () => clearInterval(interval);
+  }, [refreshStats]);
+
+  const handleClear = () => {
+    ExtractionCache.clear();
+    refreshStats();
+  };
+
+  const lookups = stats.hits + stats.misses;
+  const hitRate = lookups > 0 ? Math.round((stats.hits / lookups) * 100) : 0;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <div className="flex items-center space-x-2 mb-4">
+        <Database className="h-5 w-5 text-gray-600" />
+        <h3 className="text-lg font-semibold text-gray-900">Response Cache</h3>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-center mb-4">
+        <div className="bg-gray-50 rounded p-2">
+          <div className="text-sm font-semibold text-gray-900">{stats.entries}</div>
+          <div className="text-xs text-gray-500">entries</div>
+        </div>
+        <div className="bg-gray-50 rounded p-2">
+          <div className="text-sm font-semibold text-gray-900">{LocalStorage.formatBytes(stats.sizeBytes)}</div>
+          <div className="text-xs text-gray-500">size</div>
+        </div>
+        <div className="bg-gray-50 rounded p-2">
+          <div className="text-sm font-semibold text-gray-900">{hitRate}%</div>
+          <div className="text-xs text-gray-500">hit rate</div>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 mb-3">
+        {stats.hits} of {lookups} requests served from cache. Identical crops are never sent to Gemini twice.
+      </p>
+
+      <label className="flex items-center space-x-2 text-sm text-gray-700 mb-3">
+        <input
+          type="checkbox"
+          checked={bypassCache}
+          onChange={(e) => onBypassCacheChange(e.target.checked)}
+          disabled={disabled}
+          className="text-blue-600 focus:ring-blue-500"
+        />
+        <span>Bypass cache (force re-extraction)</span>
+      </label>
+
+      <button
+        onClick={handleClear}
+        disabled={disabled || stats.entries === 0}
+        className="flex items-center space-x-1 text-xs text-red-600 hover:text-red-700 disabled:opacity-50"
+      >
+        <Trash2 className="h-3 w-3" />
+        <span>Clear cache</span>
+      </button>
+    </div>
+  );
+}
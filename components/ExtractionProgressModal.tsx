@@ -0,0 +1,156 @@
+import React from 'react';
+import {
+  Brain, CheckCircle, Pause, Play, Square, XCircle, RotateCcw, Loader2, Clock, Ban
+} from 'lucide-react';
+import { formatUsage } from '../lib/usage-utils';
+import type { ExtractionProgress, JobItemStatus, JobStatus } from '../lib/types';
+
+interface ExtractionProgressModalProps {
+  progress: ExtractionProgress;
+  title: string;
+  onPause?: () => void;
+  onResume?: () => void;
+  onCancel?: () => void;
+  onClose?: () => void;
+}
+
+const STATUS_STYLES: Record<JobStatus, { icon: React.ComponentType<{ className?: string }>; className: string; label: string }> = {
+  pending: { icon: Clock, className: 'text-gray-400', label: 'Waiting' },
+  running: { icon: Loader2, className: 'text-blue-600 animate-spin', label: 'Running' },
+  retrying: { icon: RotateCcw, className: 'text-amber-600', label: 'Retrying' },
+  succeeded: { icon: CheckCircle, className: 'text-green-600', label: 'Done' },
+  failed: { icon: XCircle, className: 'text-red-600', label: 'Failed' },
+  cancelled: { icon: Ban, className: 'text-gray-400', label: 'Cancelled' },
+};
+
+const describeItem = (item: JobItemStatus): string => {
+  const { label } = STATUS_STYLES[item.status];
+  if (item.status === 'retrying' && item.retryAt) {
+    return `${label} at ${new Date(item.retryAt).toLocaleTimeString()} (attempt ${item.attempts + 1})`;
+  }
+  if (item.attempts > 1 && item.status !== 'pending') {
+    return `${label} after ${item.attempts} attempts`;
+  }
+  return label;
+};
+
+export default function ExtractionProgressModal({
+  progress,
+  title,
+  onPause,
+  onResume,
+  onCancel,
+  onClose,
+}: ExtractionProgressModalProps) {
+  const { queueState, items } = progress;
+  const isComplete = progress.stage === 'complete';
+  const isCancelled = queueState === 'cancelled';
+
+  const heading = progress.stage === 'processing' ? 'Processing PDF...' :
+    progress.stage === 'extracting' ? (queueState === 'paused' ? 'Paused' : `${title} Extracting...`) :
+    progress.stage === 'formatting' ? 'Formatting Results...' :
+    isCancelled ? 'Extraction Cancelled' :
+    progress.error ? 'Extraction Error' :
+    'Complete!';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
+        <div className="text-center">
+          <Brain className={`h-12 w-12 text-blue-600 mx-auto mb-4 ${isComplete || queueState === 'paused' ? '' : 'animate-pulse'}`} />
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">{heading}</h3>
+
+          <div className="w-full bg-gray-200 rounded-full h-2 mb-4">
+            <div
+              className={`h-2 rounded-full transition-all duration-300 ${
+                progress.error ? 'bg-red-500' : 'bg-blue-600'
+              }`}
+              style={{ width: `${progress.total > 0 ? (progress.current / progress.total) * 100 : 0}%` }}
+            ></div>
+          </div>
+
+          <p className="text-sm text-gray-600 mb-2">
+            {progress.currentItem || `${progress.current} of ${progress.total}`}
+          </p>
+
+          {progress.usage && progress.usage.requests + progress.usage.cachedRequests > 0 && (
+            <p className="text-xs text-gray-500 mb-2">This run: {formatUsage(progress.usage)}</p>
+          )}
+
+          {progress.error && (
+            <div className="bg-red-50 border border-red-200 rounded p-3 mt-3">
+              <p className="text-xs text-red-700">{progress.error}</p>
+            </div>
+          )}
+
+          {isComplete && !progress.error && !isCancelled && (
+            <div className="flex items-center justify-center space-x-1 text-green-600 mt-2">
+              <CheckCircle className="h-4 w-4" />
+              <span className="text-sm font-medium">Extraction completed!</span>
+            </div>
+          )}
+        </div>
+
+        {items && items.length > 0 && (
+          <ul className="mt-4 max-h-60 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded">
+            {items.map(item => {
+              const { icon: Icon, className } = STATUS_STYLES[item.status];
+              return (
+                <li key={item.id} className="px-3 py-2 text-left">
+                  <div className="flex items-center justify-between text-sm">
+                    <div className="flex items-center space-x-2">
+                      <Icon className={`h-4 w-4 flex-shrink-0 ${className}`} />
+                      <span className="text-gray-800">{item.label}</span>
+                    </div>
+                    <span className="text-xs text-gray-500">{describeItem(item)}</span>
+                  </div>
+                  {item.error && (item.status === 'failed' || item.status === 'retrying') && (
+                    <p className="text-xs text-red-600 mt-1 ml-6 break-words">{item.error}</p>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <div className="flex justify-center space-x-2 mt-4">
+          {queueState === 'running' && onPause && (
+            <button
+              onClick={onPause}
+              className="flex items-center space-x-1 px-3 py-1 bg-gray-600 text-white text-sm rounded hover:bg-gray-700"
+            >
+              <Pause className="h-4 w-4" />
+              <span>Pause</span>
+            </button>
+          )}
+          {queueState === 'paused' && onResume && (
+            <button
+              onClick={onResume}
+              className="flex items-center space-x-1 px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700"
+            >
+              <Play className="h-4 w-4" />
+              <span>Resume</span>
+            </button>
+          )}
+          {(queueState === 'running' || queueState === 'paused') && onCancel && (
+            <button
+              onClick={onCancel}
+              className="flex items-center space-x-1 px-3 py-1 bg-red-600 text-white text-sm rounded hover:bg-red-700"
+            >
+              <Square className="h-4 w-4" />
+              <span>Cancel</span>
+            </button>
+          )}
+          {isComplete && onClose && (
+            <button
+              onClick={onClose}
+              className="px-3 py-1 bg-gray-200 text-gray-800 text-sm rounded hover:bg-gray-300"
+            >
+              Close
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,45 +1,97 @@
 import React, { useState } from 'react';
-import { Trash2, Edit3, Check, X } from 'lucide-react';
+import { Trash2, Edit3, Check, X, Plus } from 'lucide-react';
 import 'katex/dist/katex.min.css';
+// Adds \ce for questions extracted with the chemistry prompt profile
+import 'katex/contrib/mhchem';
 import { InlineMath, BlockMath } from 'react-katex';
 import { detectLatex, cleanLatex } from '../lib/latex-utils';
-import type { MCQ } from '../lib/types';
+import { EXTRACTION_PROVIDERS } from '../lib/extraction-providers';
+import {
+  QUESTION_TYPES,
+  changeQuestionType,
+  formatCorrectAnswer,
+  getQuestionType,
+  optionLabel
+} from '../lib/question-types';
+import { getOptionLabel } from '../lib/label-utils';
+import { groupMCQsByPassage } from '../lib/passage-utils';
+import type { PromptProfile } from '../lib/prompt-profiles';
+import { formatUsage } from '../lib/usage-utils';
+import type { FigureAsset, MCQ, Passage, QuestionType } from '../lib/types';
 
 interface MCQEditorProps {
   mcqs: MCQ[];
+  passages: Passage[];
+  onPassageUpdate: (id: string, text: string) => void;
   onMCQUpdate: (id: string, updates: Partial<MCQ>) => void;
   onMCQDelete: (id: string) => void;
+  // Used to show the names of the prompt profiles questions were extracted with
+  promptProfiles?: PromptProfile[];
 }
 
+type EditableField = 'passage' | 'question' | 'option' | 'explanation' | 'assertion' | 'reason' | 'match-left' | 'match-right';
+
 interface EditingState {
   mcqId: string | null;
-  field: 'question' | 'option' | null;
+  field: EditableField | null;
+  // Index into options, or into a match column
   optionIndex?: number;
+  // Set instead of mcqId while a shared passage is being edited
+  passageId?: string;
 }
 
-export default function MCQEditor({ mcqs, onMCQUpdate, onMCQDelete }: MCQEditorProps) {
+export default function MCQEditor({ mcqs, passages, onPassageUpdate, onMCQUpdate, onMCQDelete, promptProfiles = [] }: MCQEditorProps) {
   const [editing, setEditing] = useState<EditingState>({ mcqId: null, field: null });
   const [editValue, setEditValue] = useState('');
 
-  const startEditing = (mcqId: string, field: 'question' | 'option', optionIndex?: number) => {
+  const startEditing = (mcqId: string, field: EditableField, optionIndex?: number) => {
     const mcq = mcqs.find(m => m.id === mcqId);
     if (!mcq) return;
 
     const value = field === 'question' 
       ? mcq.question 
-      : mcq.options[optionIndex || 0] || '';
+      : field === 'explanation'
+        ? mcq.explanation || ''
+        : field === 'assertion'
+          ? mcq.assertion || ''
+          : field === 'reason'
+            ? mcq.reason || ''
+            : field === 'match-left'
+              ? (mcq.matchLeft ?? [])[optionIndex || 0] || ''
+              : field === 'match-right'
+                ? (mcq.matchRight ?? [])[optionIndex || 0] || ''
+                : mcq.options[optionIndex || 0] || '';
 
     setEditing({ mcqId, field, optionIndex });
     setEditValue(value);
   };
 
+  const startEditingPassage = (passage: Passage) => {
+    setEditing({ mcqId: null, field: 'passage', passageId: passage.id });
+    setEditValue(passage.text);
+  };
+
   const saveEdit = () => {
+    if (editing.field === 'passage' && editing.passageId) {
+      // Kept raw like explanations, so paragraphs and table rows survive
+      onPassageUpdate(editing.passageId, editValue.trim());
+      cancelEdit();
+      return;
+    }
+
     if (!editing.mcqId || !editing.field) return;
 
     const cleanedValue = detectLatex(editValue) ? cleanLatex(editValue) : editValue;
 
     if (editing.field === 'question') {
       onMCQUpdate(editing.mcqId, { question: cleanedValue });
+    } else if (editing.field === 'explanation') {
+      // cleanLatex joins lines and words, which would flatten a multi-step solution
+      onMCQUpdate(editing.mcqId, { explanation: editValue.trim() || undefined });
+    } else if (editing.field === 'assertion') {
+      onMCQUpdate(editing.mcqId, { assertion: cleanedValue });
+    } else if (editing.field === 'reason') {
+      onMCQUpdate(editing.mcqId, { reason: cleanedValue });
     } else if (editing.field === 'option' && editing.optionIndex !== undefined) {
       const mcq = mcqs.find(m => m.id === editing.mcqId);
       if (mcq) {
@@ -47,6 +99,14 @@ export default function MCQEditor({ mcqs, onMCQUpdate, onMCQDelete }: MCQEditorP
         newOptions[editing.optionIndex] = cleanedValue;
         onMCQUpdate(editing.mcqId, { options: newOptions });
       }
+    } else if ((editing.field === 'match-left' || editing.field === 'match-right') && editing.optionIndex !== undefined) {
+      const mcq = mcqs.find(m => m.id === editing.mcqId);
+      if (mcq) {
+        const column = editing.field === 'match-left' ? 'matchLeft' : 'matchRight';
+        const newItems = [...(mcq[column] ?? [])];
+        newItems[editing.optionIndex] = cleanedValue;
+        onMCQUpdate(editing.mcqId, { [column]: newItems });
+      }
     }
 
     cancelEdit();
@@ -61,6 +121,72 @@ export default function MCQEditor({ mcqs, onMCQUpdate, onMCQDelete }: MCQEditorP
     onMCQUpdate(mcqId, { correct_answer: answer });
   };
 
+  const toggleCorrectIndex = (mcq: MCQ, optionIndex: number) => {
+    const current = mcq.correctIndices ?? [];
+    onMCQUpdate(mcq.id, {
+      correctIndices: current.includes(optionIndex)
+        ? current.filter(index => index !== optionIndex)
+        : [...current, optionIndex].sort((a, b) => a - b)
+    });
+  };
+
+  const isCorrectOption = (mcq: MCQ, optionIndex: number): boolean => {
+    return getQuestionType(mcq) === 'multiple'
+      ? (mcq.correctIndices ?? []).includes(optionIndex)
+      : mcq.correct_answer === mcq.options[optionIndex];
+  };
+
+  const addOption = (mcq: MCQ) => {
+    onMCQUpdate(mcq.id, { options: [...mcq.options, ''] });
+    startEditing(mcq.id, 'option', mcq.options.length);
+  };
+
+  const addMatchItem = (mcq: MCQ, column: 'matchLeft' | 'matchRight') => {
+    const items = mcq[column] ?? [];
+    onMCQUpdate(mcq.id, { [column]: [...items, ''] });
+    startEditing(mcq.id, column === 'matchLeft' ? 'match-left' : 'match-right', items.length);
+  };
+
+  const setMatchPair = (mcq: MCQ, left: number, right: number | null) => {
+    const pairs = (mcq.matchPairs ?? []).filter(pair => pair.left !== left);
+    onMCQUpdate(mcq.id, { matchPairs: right === null ? pairs : [...pairs, { left, right }] });
+  };
+
+  const parseNumberInput = (value: string): number | undefined => {
+    return value.trim() === '' || isNaN(Number(value)) ? undefined : Number(value);
+  };
+
+  const removeFigure = (mcq: MCQ, figureId: string) => {
+    onMCQUpdate(mcq.id, { figures: (mcq.figures ?? []).filter(figure => figure.id !== figureId) });
+  };
+
+  const renderFigures = (mcq: MCQ, figures: FigureAsset[]) => {
+    if (figures.length === 0) return null;
+
+    return (
+      <div className="flex flex-wrap gap-3 mt-2">
+        {figures.map(figure => (
+          <div key={figure.id} className="relative group border border-gray-200 rounded bg-white p-1">
+            <img
+              src={figure.dataUrl}
+              alt={`Figure from page ${figure.page}`}
+              width={figure.width}
+              height={figure.height}
+              className="max-h-64 w-auto max-w-full"
+            />
+            <button
+              onClick={() => removeFigure(mcq, figure.id)}
+              title="Remove figure"
+              className="absolute top-1 right-1 p-1 bg-white bg-opacity-90 text-red-600 rounded shadow opacity-0 group-hover:opacity-100 transition-opacity"
+            >
+              <Trash2 className="h-3 w-3" />
+            </button>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
   const renderText = (text: string) => {
     if (!text) return <span className="text-gray-400 italic">No text</span>;
 
@@ -86,6 +212,460 @@ export default function MCQEditor({ mcqs, onMCQUpdate, onMCQDelete }: MCQEditorP
     return <span>{text}</span>;
   };
 
+  // Solutions span several lines; a line that is a single $$...$$ block is shown as display math
+  const renderMultilineText = (text: string) => {
+    return (
+      <div className="space-y-1">
+        {text.split('\n').map((line, index) => {
+          const display = /^\s*\$\$([\s\S]+)\$\$\s*$/.exec(line);
+          if (display) {
+            return <BlockMath key={index} math={display[1]} />;
+          }
+          return <div key={index}>{line.trim() ? renderText(line) : <br />}</div>;
+        })}
+      </div>
+    );
+  };
+
+  // Single-line editor shared by options, match items and the assertion/reason parts
+  const renderItemEditor = (placeholder: string) => (
+    <div className="space-y-2">
+      <input
+        type="text"
+        value={editValue}
+        onChange={(e) => setEditValue(e.target.value)}
+        className="w-full p-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+        placeholder={placeholder}
+      />
+      <div className="flex space-x-2">
+        <button
+          onClick={saveEdit}
+          className="flex items-center space-x-1 px-2 py-1 bg-green-600 text-white text-xs rounded hover:bg-green-700"
+        >
+          <Check className="h-3 w-3" />
+          <span>Save</span>
+        </button>
+        <button
+          onClick={cancelEdit}
+          className="flex items-center space-x-1 px-2 py-1 bg-gray-600 text-white text-xs rounded hover:bg-gray-700"
+        >
+          <X className="h-3 w-3" />
+          <span>Cancel</span>
+        </button>
+      </div>
+    </div>
+  );
+
+  // Shown once above the questions that share it; edits apply to all of them
+  const renderPassage = (passage: Passage) => {
+    const questionCount = mcqs.filter(mcq => mcq.passageId === passage.id).length;
+
+    return (
+      <div className="p-4 bg-orange-50 border border-orange-200 rounded-lg">
+        <div className="flex items-center space-x-2 mb-2">
+          <span className="px-2 py-1 bg-orange-100 text-orange-800 text-xs font-medium rounded">
+            Passage
+          </span>
+          <span className="text-xs text-gray-500">
+            Page {passage.page} • shared by {questionCount} question{questionCount === 1 ? '' : 's'}
+          </span>
+        </div>
+        {editing.field === 'passage' && editing.passageId === passage.id ? (
+          <div className="space-y-2">
+            <textarea
+              value={editValue}
+              onChange={(e) => setEditValue(e.target.value)}
+              className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+              rows={8}
+              placeholder="Enter the passage text (one paragraph per line, LaTeX supported)"
+            />
+            <div className="flex space-x-2">
+              <button
+                onClick={saveEdit}
+                className="flex items-center space-x-1 px-3 py-1 bg-green-600 text-white text-sm rounded hover:bg-green-700"
+              >
+                <Check className="h-4 w-4" />
+                <span>Save</span>
+              </button>
+              <button
+                onClick={cancelEdit}
+                className="flex items-center space-x-1 px-3 py-1 bg-gray-600 text-white text-sm rounded hover:bg-gray-700"
+              >
+                <X className="h-4 w-4" />
+                <span>Cancel</span>
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div
+            onClick={() => startEditingPassage(passage)}
+            className="text-sm text-gray-800 cursor-pointer hover:bg-orange-100 p-2 rounded transition-colors"
+          >
+            {passage.text ? renderMultilineText(passage.text) : renderText('')}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderMCQCard = (mcq: MCQ, mcqIndex: number) => (
+    <div key={mcq.id} className="border border-gray-200 rounded-lg p-6 hover:shadow-md transition-shadow">
+      {/* Question Header */}
+      <div className="flex items-start justify-between mb-4">
+        <div className="flex-1">
+          <div className="flex items-center space-x-2 mb-2">
+            <span className="px-2 py-1 bg-blue-100 text-blue-700 text-xs font-medium rounded">
+              Question {mcqIndex + 1}
+            </span>
+            <label
+              className="flex items-center space-x-1 text-xs text-gray-500"
+              title="The number printed in the paper, used to match the answer key"
+            >
+              <span>No.</span>
+              <input
+                type="number"
+                min="0"
+                value={mcq.questionNumber ?? ''}
+                onChange={(e) => onMCQUpdate(mcq.id, { questionNumber: parseNumberInput(e.target.value) })}
+                className="w-14 border border-gray-300 rounded px-1 py-0.5 text-gray-700"
+                placeholder="—"
+              />
+            </label>
+            <span className="text-xs text-gray-500">Page {mcq.page}</span>
+            <select
+              value={getQuestionType(mcq)}
+              onChange={(e) => onMCQUpdate(mcq.id, changeQuestionType(mcq, e.target.value as QuestionType))}
+              className="text-xs border border-gray-300 rounded px-1 py-0.5 text-gray-700"
+              title="Question type"
+            >
+              {Object.values(QUESTION_TYPES).map(type => (
+                <option key={type.id} value={type.id}>{type.name}</option>
+              ))}
+            </select>
+            {mcq.provider && (
+              <span className="px-2 py-1 bg-gray-100 text-gray-600 text-xs rounded">
+                via {EXTRACTION_PROVIDERS[mcq.provider].name}
+              </span>
+            )}
+            {mcq.extractionPath && (
+              <span className={`px-2 py-1 text-xs rounded ${
+                mcq.extractionPath === 'text-layer'
+                  ? 'bg-emerald-100 text-emerald-700'
+                  : 'bg-purple-100 text-purple-700'
+              }`}>
+                {mcq.extractionPath === 'text-layer' ? 'Text layer' : 'Vision'}
+              </span>
+            )}
+            {mcq.promptProfile && (
+              <span className="px-2 py-1 bg-gray-100 text-gray-600 text-xs rounded" title="Prompt profile">
+                {promptProfiles.find(profile => profile.id === mcq.promptProfile)?.name ?? mcq.promptProfile}
+              </span>
+            )}
+            {mcq.validationStatus === 'repaired' && (
+              <span className="px-2 py-1 bg-yellow-100 text-yellow-800 text-xs rounded">
+                Repaired
+              </span>
+            )}
+            {mcq.validationStatus === 'failed' && (
+              <span
+                className="px-2 py-1 bg-red-100 text-red-700 text-xs rounded"
+                title={mcq.validationError}
+              >
+                Validation failed — please review
+              </span>
+            )}
+            {mcq.usage && mcq.usage.totalTokens > 0 && (
+              <span className="text-xs text-gray-500" title={formatUsage(mcq.usage)}>
+                {mcq.usage.totalTokens.toLocaleString()} tokens
+              </span>
+            )}
+          </div>
+                  
+          {/* Question Text */}
+          <div className="mb-4">
+            {editing.mcqId === mcq.id && editing.field === 'question' ? (
+              <div className="space-y-2">
+                <textarea
+                  value={editValue}
+                  onChange={(e) => setEditValue(e.target.value)}
+                  className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+                  rows={3}
+                  placeholder="Enter question text (LaTeX supported with $ symbols)"
+                />
+                <div className="flex space-x-2">
+                  <button
+                    onClick={saveEdit}
+                    className="flex items-center space-x-1 px-3 py-1 bg-green-600 text-white text-sm rounded hover:bg-green-700"
+                  >
+                    <Check className="h-4 w-4" />
+                    <span>Save</span>
+                  </button>
+                  <button
+                    onClick={cancelEdit}
+                    className="flex items-center space-x-1 px-3 py-1 bg-gray-600 text-white text-sm rounded hover:bg-gray-700"
+                  >
+                    <X className="h-4 w-4" />
+                    <span>Cancel</span>
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div
+                onClick={() => startEditing(mcq.id, 'question')}
+                className="text-lg font-medium text-gray-900 cursor-pointer hover:bg-gray-50 p-2 rounded border border-transparent hover:border-gray-200 transition-colors"
+              >
+                {renderText(mcq.question)}
+              </div>
+            )}
+            {renderFigures(mcq, (mcq.figures ?? []).filter(figure => figure.optionIndex === undefined))}
+          </div>
+        </div>
+
+        <button
+          onClick={() => onMCQDelete(mcq.id)}
+          className="flex items-center space-x-1 px-3 py-1 text-red-600 hover:bg-red-50 rounded text-sm transition-colors"
+        >
+          <Trash2 className="h-4 w-4" />
+          <span>Delete</span>
+        </button>
+      </div>
+
+      {/* Assertion and Reason */}
+      {getQuestionType(mcq) === 'assertion-reason' && (
+        <div className="space-y-3 mb-4">
+          {(['assertion', 'reason'] as const).map(field => (
+            <div key={field}>
+              <h4 className="text-sm font-medium text-gray-700 mb-1">
+                {field === 'assertion' ? 'Assertion (A):' : 'Reason (R):'}
+              </h4>
+              {editing.mcqId === mcq.id && editing.field === field ? (
+                renderItemEditor(`Enter the ${field} (LaTeX supported)`)
+              ) : (
+                <div
+                  onClick={() => startEditing(mcq.id, field)}
+                  className="p-2 rounded cursor-pointer border border-transparent hover:border-gray-200 hover:bg-gray-50 transition-colors"
+                >
+                  {renderText(mcq[field] || '')}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Options */}
+      {getQuestionType(mcq) !== 'numeric' && getQuestionType(mcq) !== 'match' && (
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium text-gray-700 mb-2">
+            {getQuestionType(mcq) === 'multiple' ? 'Options (select every correct one):' : 'Options:'}
+          </h4>
+          {mcq.options.map((option, optionIndex) => (
+            <div key={optionIndex} className="flex items-center space-x-3">
+              <div className="flex items-center space-x-2">
+                {getQuestionType(mcq) === 'multiple' ? (
+                  <input
+                    type="checkbox"
+                    checked={isCorrectOption(mcq, optionIndex)}
+                    onChange={() => toggleCorrectIndex(mcq, optionIndex)}
+                    className="text-green-600 focus:ring-green-500"
+                  />
+                ) : (
+                  <input
+                    type="radio"
+                    name={`correct-${mcq.id}`}
+                    checked={isCorrectOption(mcq, optionIndex)}
+                    onChange={() => setCorrectAnswer(mcq.id, option)}
+                    className="text-green-600 focus:ring-green-500"
+                  />
+                )}
+                <span
+                  className="text-sm font-medium text-gray-600"
+                  title={mcq.optionLabels?.[optionIndex] ? `Normalised label: ${optionLabel(optionIndex)}` : undefined}
+                >
+                  {getOptionLabel(mcq, optionIndex)}.
+                </span>
+              </div>
+
+              <div className="flex-1">
+                {editing.mcqId === mcq.id && editing.field === 'option' && editing.optionIndex === optionIndex ? (
+                  renderItemEditor('Enter option text (LaTeX supported)')
+                ) : (
+                  <div
+                    onClick={() => getQuestionType(mcq) !== 'true-false' && startEditing(mcq.id, 'option', optionIndex)}
+                    className={`p-2 rounded border border-transparent transition-colors ${
+                      getQuestionType(mcq) !== 'true-false' ? 'cursor-pointer hover:border-gray-200' : ''
+                    } ${
+                      isCorrectOption(mcq, optionIndex)
+                        ? 'bg-green-50 text-green-800' 
+                        : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    {renderText(option)}
+                  </div>
+                )}
+                {renderFigures(mcq, (mcq.figures ?? []).filter(figure => figure.optionIndex === optionIndex))}
+              </div>
+            </div>
+          ))}
+          {(getQuestionType(mcq) === 'single' || getQuestionType(mcq) === 'multiple') && (
+            <button
+              onClick={() => addOption(mcq)}
+              className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700"
+            >
+              <Plus className="h-4 w-4" />
+              <span>Add option</span>
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Numeric Answer */}
+      {getQuestionType(mcq) === 'numeric' && (
+        <div className="flex items-end space-x-4">
+          <label className="text-sm text-gray-700">
+            <span className="block font-medium mb-1">Answer</span>
+            <input
+              type="number"
+              step="any"
+              value={mcq.numericAnswer ?? ''}
+              onChange={(e) => onMCQUpdate(mcq.id, { numericAnswer: parseNumberInput(e.target.value) })}
+              className="w-40 p-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            <span className="block font-medium mb-1">Tolerance (±)</span>
+            <input
+              type="number"
+              step="any"
+              min="0"
+              value={mcq.numericTolerance ?? ''}
+              onChange={(e) => onMCQUpdate(mcq.id, { numericTolerance: parseNumberInput(e.target.value) })}
+              className="w-32 p-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Exact"
+            />
+          </label>
+        </div>
+      )}
+
+      {/* Match Columns */}
+      {getQuestionType(mcq) === 'match' && (
+        <div className="grid grid-cols-2 gap-6">
+          {(['matchLeft', 'matchRight'] as const).map(column => {
+            const field = column === 'matchLeft' ? 'match-left' : 'match-right';
+            const items = mcq[column] ?? [];
+            return (
+              <div key={column} className="space-y-2">
+                <h4 className="text-sm font-medium text-gray-700">
+                  {column === 'matchLeft' ? 'Column I' : 'Column II'}
+                </h4>
+                {items.map((item, itemIndex) => (
+                  <div key={itemIndex} className="flex items-center space-x-2">
+                    <span className="text-sm font-medium text-gray-600">
+                      {column === 'matchLeft' ? optionLabel(itemIndex) : itemIndex + 1}.
+                    </span>
+                    <div className="flex-1">
+                      {editing.mcqId === mcq.id && editing.field === field && editing.optionIndex === itemIndex ? (
+                        renderItemEditor('Enter item text (LaTeX supported)')
+                      ) : (
+                        <div
+                          onClick={() => startEditing(mcq.id, field, itemIndex)}
+                          className="p-2 rounded cursor-pointer border border-transparent hover:border-gray-200 hover:bg-gray-50 transition-colors"
+                        >
+                          {renderText(item)}
+                        </div>
+                      )}
+                    </div>
+                    {column === 'matchLeft' && (
+                      <select
+                        value={(mcq.matchPairs ?? []).find(pair => pair.left === itemIndex)?.right ?? ''}
+                        onChange={(e) => setMatchPair(mcq, itemIndex, e.target.value === '' ? null : Number(e.target.value))}
+                        className="text-sm border border-gray-300 rounded p-1"
+                        title="Matching item in Column II"
+                      >
+                        <option value="">—</option>
+                        {(mcq.matchRight ?? []).map((_, rightIndex) => (
+                          <option key={rightIndex} value={rightIndex}>{rightIndex + 1}</option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                ))}
+                <button
+                  onClick={() => addMatchItem(mcq, column)}
+                  className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700"
+                >
+                  <Plus className="h-4 w-4" />
+                  <span>Add item</span>
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Correct Answer Indicator */}
+      {formatCorrectAnswer(mcq) && (
+        <div className="mt-4 p-3 bg-green-50 border border-green-200 rounded-lg">
+          <div className="flex items-center space-x-2">
+            <Check className="h-4 w-4 text-green-600" />
+            <span className="text-sm font-medium text-green-800">Correct Answer:</span>
+            <span className="text-sm text-green-700">{renderText(formatCorrectAnswer(mcq))}</span>
+          </div>
+        </div>
+      )}
+
+      {/* Explanation */}
+      <div className="mt-4">
+        {editing.mcqId === mcq.id && editing.field === 'explanation' ? (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium text-gray-700">Explanation:</h4>
+            <textarea
+              value={editValue}
+              onChange={(e) => setEditValue(e.target.value)}
+              className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+              rows={6}
+              placeholder="Enter the worked solution (one step per line, $...$ inline and $$...$$ display math)"
+            />
+            <div className="flex space-x-2">
+              <button
+                onClick={saveEdit}
+                className="flex items-center space-x-1 px-3 py-1 bg-green-600 text-white text-sm rounded hover:bg-green-700"
+              >
+                <Check className="h-4 w-4" />
+                <span>Save</span>
+              </button>
+              <button
+                onClick={cancelEdit}
+                className="flex items-center space-x-1 px-3 py-1 bg-gray-600 text-white text-sm rounded hover:bg-gray-700"
+              >
+                <X className="h-4 w-4" />
+                <span>Cancel</span>
+              </button>
+            </div>
+          </div>
+        ) : mcq.explanation ? (
+          <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
+            <h4 className="text-sm font-medium text-blue-800 mb-2">Explanation:</h4>
+            <div
+              onClick={() => startEditing(mcq.id, 'explanation')}
+              className="text-sm text-gray-800 cursor-pointer hover:bg-blue-100 p-2 rounded transition-colors"
+            >
+              {renderMultilineText(mcq.explanation)}
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={() => startEditing(mcq.id, 'explanation')}
+            className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add explanation</span>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+
   if (mcqs.length === 0) {
     return (
       <div className="text-center py-12">
@@ -113,139 +693,13 @@ export default function MCQEditor({ mcqs, onMCQUpdate, onMCQDelete }: MCQEditorP
         </div>
 
         <div className="space-y-8">
-          {mcqs.map((mcq, mcqIndex) => (
-            <div key={mcq.id} className="border border-gray-200 rounded-lg p-6 hover:shadow-md transition-shadow">
-              {/* Question Header */}
-              <div className="flex items-start justify-between mb-4">
-                <div className="flex-1">
-                  <div className="flex items-center space-x-2 mb-2">
-                    <span className="px-2 py-1 bg-blue-100 text-blue-700 text-xs font-medium rounded">
-                      Question {mcqIndex + 1}
-                    </span>
-                    <span className="text-xs text-gray-500">Page {mcq.page}</span>
-                  </div>
-                  
-                  {/* Question Text */}
-                  <div className="mb-4">
-                    {editing.mcqId === mcq.id && editing.field === 'question' ? (
-                      <div className="space-y-2">
-                        <textarea
-                          value={editValue}
-                          onChange={(e) => setEditValue(e.target.value)}
-                          className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
-                          rows={3}
-                          placeholder="Enter question text (LaTeX supported with $ symbols)"
-                        />
-                        <div className="flex space-x-2">
-                          <button
-                            onClick={saveEdit}
-                            className="flex items-center space-x-1 px-3 py-1 bg-green-600 text-white text-sm rounded hover:bg-green-700"
-                          >
-                            <Check className="h-4 w-4" />
-                            <span>Save</span>
-                          </button>
-                          <button
-                            onClick={cancelEdit}
-                            className="flex items-center space-x-1 px-3 py-1 bg-gray-600 text-white text-sm rounded hover:bg-gray-700"
-                          >
-                            <X className="h-4 w-4" />
-                            <span>Cancel</span>
-                          </button>
-                        </div>
-                      </div>
-                    ) : (
-                      <div
-                        onClick={() => startEditing(mcq.id, 'question')}
-                        className="text-lg font-medium text-gray-900 cursor-pointer hover:bg-gray-50 p-2 rounded border border-transparent hover:border-gray-200 transition-colors"
-                      >
-                        {renderText(mcq.question)}
-                      </div>
-                    )}
-                  </div>
-                </div>
-
-                <button
-                  onClick={() => onMCQDelete(mcq.id)}
-                  className="flex items-center space-x-1 px-3 py-1 text-red-600 hover:bg-red-50 rounded text-sm transition-colors"
-                >
-                  <Trash2 className="h-4 w-4" />
-                  <span>Delete</span>
-                </button>
-              </div>
-
-              {/* Options */}
-              <div className="space-y-3">
-                <h4 className="text-sm font-medium text-gray-700 mb-2">Options:</h4>
-                {mcq.options.map((option, optionIndex) => (
-                  <div key={optionIndex} className="flex items-center space-x-3">
-                    <div className="flex items-center space-x-2">
-                      <input
-                        type="radio"
-                        name={`correct-${mcq.id}`}
-                        checked={mcq.correct_answer === option}
-                        onChange={() => setCorrectAnswer(mcq.id, option)}
-                        className="text-green-600 focus:ring-green-500"
-                      />
-                      <span className="text-sm font-medium text-gray-600">
-                        {String.fromCharCode(65 + optionIndex)}.
-                      </span>
-                    </div>
-
-                    <div className="flex-1">
-                      {editing.mcqId === mcq.id && editing.field === 'option' && editing.optionIndex === optionIndex ? (
-                        <div className="space-y-2">
-                          <input
-                            type="text"
-                            value={editValue}
-                            onChange={(e) => setEditValue(e.target.value)}
-                            className="w-full p-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
-                            placeholder="Enter option text (LaTeX supported)"
-                          />
-                          <div className="flex space-x-2">
-                            <button
-                              onClick={saveEdit}
-                              className="flex items-center space-x-1 px-2 py-1 bg-green-600 text-white text-xs rounded hover:bg-green-700"
-                            >
-                              <Check className="h-3 w-3" />
-                              <span>Save</span>
-                            </button>
-                            <button
-                              onClick={cancelEdit}
-                              className="flex items-center space-x-1 px-2 py-1 bg-gray-600 text-white text-xs rounded hover:bg-gray-700"
-                            >
-                              <X className="h-3 w-3" />
-                              <span>Cancel</span>
-                            </button>
-                          </div>
-                        </div>
-                      ) : (
-                        <div
-                          onClick={() => startEditing(mcq.id, 'option', optionIndex)}
-                          className={`p-2 rounded cursor-pointer border border-transparent hover:border-gray-200 transition-colors ${
-                            mcq.correct_answer === option 
-                              ? 'bg-green-50 text-green-800' 
-                              : 'hover:bg-gray-50'
-                          }`}
-                        >
-                          {renderText(option)}
-                        </div>
-                      )}
-                    </div>
-                  </div>
-                ))}
-              </div>
-
-              {/* Correct Answer Indicator */}
-              {mcq.correct_answer && (
-                <div className="mt-4 p-3 bg-green-50 border border-green-200 rounded-lg">
-                  <div className="flex items-center space-x-2">
-                    <Check className="h-4 w-4 text-green-600" />
-                    <span className="text-sm font-medium text-green-800">Correct Answer:</span>
-                    <span className="text-sm text-green-700">{renderText(mcq.correct_answer)}</span>
-                  </div>
-                </div>
-              )}
+          {groupMCQsByPassage(mcqs, passages).map(group => group.passage ? (
+            <div key={group.passage.id} className="border-2 border-orange-200 rounded-lg p-4 space-y-6">
+              {renderPassage(group.passage)}
+              {group.mcqs.map(mcq => renderMCQCard(mcq, mcqs.indexOf(mcq)))}
             </div>
+          ) : (
+            renderMCQCard(group.mcqs[0], mcqs.indexOf(group.mcqs[0]))
           ))}
         </div>
       </div>
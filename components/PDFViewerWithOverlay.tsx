@@ -1,8 +1,14 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { ChevronLeft, ChevronRight, ZoomIn, ZoomOut } from 'lucide-react';
+import { ChevronLeft, ChevronRight, ZoomIn, ZoomOut, Check, X, Link2, CornerDownRight } from 'lucide-react';
 import * as pdfjsLib from 'pdfjs-dist';
-import { loadPDF, renderPage } from '../lib/pdf-utils';
-import type { PDFData, BoundingBox } from '../lib/types';
+import { DEFAULT_RENDER_SCALE, loadPDF, renderPage, scaleBoundingBox } from '../lib/pdf-utils';
+import { findFigureParent } from '../lib/figure-utils';
+import { getBoxNames } from '../lib/box-label-utils';
+import { findOptionParent } from '../lib/option-utils';
+import { findQuestionPassage } from '../lib/passage-utils';
+import { getBoxRegions } from '../lib/stitch-utils';
+import { findSolutionParent } from '../lib/solution-utils';
+import type { PDFData, BoundingBox, BoundingBoxType } from '../lib/types';
 
 interface PDFViewerWithOverlayProps {
   pdfData: PDFData;
@@ -10,21 +16,64 @@ interface PDFViewerWithOverlayProps {
   onBoundingBoxCreate: (bbox: BoundingBox) => void;
   onBoundingBoxUpdate: (id: string, updates: Partial<BoundingBox>) => void;
   onBoundingBoxDelete: (id: string) => void;
+  onPageChange?: (page: number) => void;
 }
 
+const BOX_STYLES: Record<BoundingBox['type'], { box: string; preview: string; label: string }> = {
+  question: {
+    box: 'border-blue-500 bg-blue-500 bg-opacity-20',
+    preview: 'border-blue-500 bg-blue-500 bg-opacity-10',
+    label: 'bg-blue-500',
+  },
+  option: {
+    box: 'border-green-500 bg-green-500 bg-opacity-20',
+    preview: 'border-green-500 bg-green-500 bg-opacity-10',
+    label: 'bg-green-500',
+  },
+  figure: {
+    box: 'border-purple-500 bg-purple-500 bg-opacity-20',
+    preview: 'border-purple-500 bg-purple-500 bg-opacity-10',
+    label: 'bg-purple-500',
+  },
+  solution: {
+    box: 'border-teal-500 bg-teal-500 bg-opacity-20',
+    preview: 'border-teal-500 bg-teal-500 bg-opacity-10',
+    label: 'bg-teal-500',
+  },
+  passage: {
+    box: 'border-orange-500 bg-orange-500 bg-opacity-20',
+    preview: 'border-orange-500 bg-orange-500 bg-opacity-10',
+    label: 'bg-orange-500',
+  },
+  'answer-key': {
+    box: 'border-rose-500 bg-rose-500 bg-opacity-20',
+    preview: 'border-rose-500 bg-rose-500 bg-opacity-10',
+    label: 'bg-rose-500',
+  },
+};
+
+// Boxes whose text can run on into another column or page
+const CONTINUABLE_TYPES: BoundingBoxType[] = ['question', 'option', 'passage'];
+
+const SUGGESTED_STYLE = {
+  box: 'border-dashed border-amber-500 bg-amber-400 bg-opacity-10',
+  label: 'bg-amber-500',
+};
+
 export default function PDFViewerWithOverlay({
   pdfData,
   boundingBoxes,
   onBoundingBoxCreate,
   onBoundingBoxUpdate,
   onBoundingBoxDelete,
+  onPageChange,
 }: PDFViewerWithOverlayProps) {
   const [pdf, setPdf] = useState<pdfjsLib.PDFDocumentProxy | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
   const [numPages, setNumPages] = useState(0);
-  const [scale, setScale] = useState(1.5);
+  const [scale, setScale] = useState(DEFAULT_RENDER_SCALE);
   const [isLoading, setIsLoading] = useState(true);
-  const [selectedType, setSelectedType] = useState<'question' | 'option'>('question');
+  const [selectedType, setSelectedType] = useState<BoundingBoxType>('question');
   
   // Drawing state
   const [isDrawing, setIsDrawing] = useState(false);
@@ -32,6 +81,10 @@ export default function PDFViewerWithOverlay({
   const [currentPos, setCurrentPos] = useState({ x: 0, y: 0 });
   const [draggedBox, setDraggedBox] = useState<string | null>(null);
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
+  // Option waiting for a click on the question it should belong to
+  const [linkingOptionId, setLinkingOptionId] = useState<string | null>(null);
+  // Box whose next drawn region is added as a continuation instead of a new box
+  const [continuingBoxId, setContinuingBoxId] = useState<string | null>(null);
   
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -42,7 +95,8 @@ export default function PDFViewerWithOverlay({
     if (pdfData) {
       pdfData.currentPage = currentPage;
     }
-  }, [currentPage, pdfData]);
+    onPageChange?.(currentPage);
+  }, [currentPage, pdfData, onPageChange]);
 
   // Load PDF
   useEffect(() => {
@@ -98,6 +152,39 @@ export default function PDFViewerWithOverlay({
     setScale(prev => Math.max(0.5, prev - 0.25));
   };
 
+  useEffect(() => {
+    if (!linkingOptionId && !continuingBoxId) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        setLinkingOptionId(null);
+        setContinuingBoxId(null);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [linkingOptionId, continuingBoxId]);
+
+  const boxNames = getBoxNames(boundingBoxes);
+
+  // Boxes keep the scale they were drawn at; project them onto the current zoom level
+  const pageBoxes = boundingBoxes
+    .filter(bbox => bbox.page === currentPage)
+    .map(bbox => scaleBoundingBox(bbox, scale));
+
+  const getBoxLabel = (bbox: BoundingBox): string => boxNames[bbox.id] ?? bbox.type;
+
+  // Continuation regions drawn on this page, with the part each one follows on from
+  const pageContinuations = boundingBoxes
+    .filter(bbox => (bbox.continuations ?? []).some(region => region.page === currentPage))
+    .map(bbox => scaleBoundingBox(bbox, scale))
+    .flatMap(bbox => {
+      const parts = getBoxRegions(bbox);
+      return parts
+        .map((region, index) => ({ bbox, region, index, previous: parts[index - 1] }))
+        .filter(part => part.index > 0 && part.region.page === currentPage);
+    });
+
   // Mouse handlers for bounding box drawing
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
     e.preventDefault();
@@ -108,12 +195,28 @@ export default function PDFViewerWithOverlay({
     const y = e.clientY - rect.top;
 
     // Check if clicking on existing bounding box
-    const clickedBox = boundingBoxes.find(bbox => 
-      bbox.page === currentPage &&
+    const clickedBox = pageBoxes.find(bbox => 
       x >= bbox.x && x <= bbox.x + bbox.width &&
       y >= bbox.y && y <= bbox.y + bbox.height
     );
 
+    if (continuingBoxId) {
+      // The continuation may overlap other boxes, so always draw
+      setIsDrawing(true);
+      setStartPos({ x, y });
+      setCurrentPos({ x, y });
+      return;
+    }
+
+    if (linkingOptionId) {
+      // Any click ends linking; a click on a question also sets the link
+      if (clickedBox?.type === 'question' && !clickedBox.suggested) {
+        onBoundingBoxUpdate(linkingOptionId, { parentId: clickedBox.id });
+      }
+      setLinkingOptionId(null);
+      return;
+    }
+
     if (clickedBox) {
       // Start dragging existing box
       setDraggedBox(clickedBox.id);
@@ -127,7 +230,7 @@ export default function PDFViewerWithOverlay({
       setStartPos({ x, y });
       setCurrentPos({ x, y });
     }
-  }, [boundingBoxes, currentPage]);
+  }, [pageBoxes, linkingOptionId, continuingBoxId, onBoundingBoxUpdate]);
 
   const handleMouseMove = useCallback((e: React.MouseEvent) => {
     const rect = overlayRef.current?.getBoundingClientRect();
@@ -143,9 +246,12 @@ export default function PDFViewerWithOverlay({
       const newX = Math.max(0, x - dragOffset.x);
       const newY = Math.max(0, y - dragOffset.y);
       
-      onBoundingBoxUpdate(draggedBox, { x: newX, y: newY });
+      // Convert back to the scale the box is stored at
+      const box = boundingBoxes.find(bbox => bbox.id === draggedBox);
+      const factor = (box?.scale ?? DEFAULT_RENDER_SCALE) / scale;
+      onBoundingBoxUpdate(draggedBox, { x: newX * factor, y: newY * factor });
     }
-  }, [isDrawing, draggedBox, dragOffset, onBoundingBoxUpdate]);
+  }, [isDrawing, draggedBox, dragOffset, boundingBoxes, scale, onBoundingBoxUpdate]);
 
   const handleMouseUp = useCallback((e: React.MouseEvent) => {
     if (isDrawing) {
@@ -158,8 +264,22 @@ export default function PDFViewerWithOverlay({
       const width = Math.abs(endX - startPos.x);
       const height = Math.abs(endY - startPos.y);
 
+      const continuedBox = continuingBoxId ? boundingBoxes.find(bbox => bbox.id === continuingBoxId) : undefined;
+
       // Only create box if it has minimum size
-      if (width > 10 && height > 10) {
+      if (width > 10 && height > 10 && continuedBox) {
+        // Stored in the continued box's own scale, like the box itself
+        const factor = (continuedBox.scale ?? DEFAULT_RENDER_SCALE) / scale;
+        onBoundingBoxUpdate(continuedBox.id, {
+          continuations: [...(continuedBox.continuations ?? []), {
+            page: currentPage,
+            x: Math.min(startPos.x, endX) * factor,
+            y: Math.min(startPos.y, endY) * factor,
+            width: width * factor,
+            height: height * factor,
+          }],
+        });
+      } else if (width > 10 && height > 10) {
         const newBox: BoundingBox = {
           id: `bbox-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
           x: Math.min(startPos.x, endX),
@@ -168,17 +288,30 @@ export default function PDFViewerWithOverlay({
           height,
           type: selectedType,
           page: currentPage,
+          scale,
         };
 
+        // Link new figures, solutions and questions to the box they most likely belong to; the link can be changed in the sidebar
+        if (selectedType === 'figure') {
+          newBox.parentId = findFigureParent(newBox, boundingBoxes)?.id;
+        } else if (selectedType === 'solution') {
+          newBox.parentId = findSolutionParent(newBox, boundingBoxes)?.id;
+        } else if (selectedType === 'option') {
+          newBox.parentId = findOptionParent(newBox, boundingBoxes)?.id;
+        } else if (selectedType === 'question') {
+          newBox.passageId = findQuestionPassage(newBox, boundingBoxes)?.id;
+        }
+
         onBoundingBoxCreate(newBox);
       }
 
       setIsDrawing(false);
       setCurrentPos({ x: 0, y: 0 });
+      setContinuingBoxId(null);
     }
 
     setDraggedBox(null);
-  }, [isDrawing, startPos, selectedType, currentPage, onBoundingBoxCreate]);
+  }, [isDrawing, startPos, selectedType, currentPage, scale, boundingBoxes, continuingBoxId, onBoundingBoxCreate, onBoundingBoxUpdate]);
 
   const handleDoubleClick = useCallback((e: React.MouseEvent) => {
     e.preventDefault();
@@ -189,16 +322,28 @@ export default function PDFViewerWithOverlay({
     const y = e.clientY - rect.top;
 
     // Find and delete clicked box
-    const clickedBox = boundingBoxes.find(bbox => 
-      bbox.page === currentPage &&
+    const clickedBox = pageBoxes.find(bbox => 
       x >= bbox.x && x <= bbox.x + bbox.width &&
       y >= bbox.y && y <= bbox.y + bbox.height
     );
 
     if (clickedBox) {
       onBoundingBoxDelete(clickedBox.id);
+      return;
     }
-  }, [boundingBoxes, onBoundingBoxDelete, currentPage]);
+
+    // Double-clicking a continuation removes just that region
+    const clickedPart = pageContinuations.find(({ region }) =>
+      x >= region.x && x <= region.x + region.width &&
+      y >= region.y && y <= region.y + region.height
+    );
+    const continuedBox = clickedPart && boundingBoxes.find(bbox => bbox.id === clickedPart.bbox.id);
+    if (clickedPart && continuedBox) {
+      // pageContinuations holds zoomed copies, so filter the stored regions instead
+      const continuations = (continuedBox.continuations ?? []).filter((_, index) => index !== clickedPart.index - 1);
+      onBoundingBoxUpdate(continuedBox.id, { continuations: continuations.length > 0 ? continuations : undefined });
+    }
+  }, [pageBoxes, pageContinuations, boundingBoxes, onBoundingBoxDelete, onBoundingBoxUpdate]);
 
   // Calculate current drawing box dimensions
   const getCurrentDrawingBox = () => {
@@ -213,6 +358,8 @@ export default function PDFViewerWithOverlay({
   };
 
   const drawingBox = getCurrentDrawingBox();
+  const continuedBox = continuingBoxId ? boundingBoxes.find(bbox => bbox.id === continuingBoxId) : undefined;
+  const previewType = continuedBox?.type ?? selectedType;
 
   if (isLoading) {
     return (
@@ -235,16 +382,24 @@ export default function PDFViewerWithOverlay({
               <label className="text-sm text-gray-600">Type:</label>
               <select
                 value={selectedType}
-                onChange={(e) => setSelectedType(e.target.value as 'question' | 'option')}
+                onChange={(e) => setSelectedType(e.target.value as BoundingBoxType)}
                 className="px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
               >
                 <option value="question">Question</option>
                 <option value="option">Option</option>
+                <option value="figure">Figure</option>
+                <option value="solution">Solution</option>
+                <option value="passage">Passage</option>
+                <option value="answer-key">Answer key</option>
               </select>
             </div>
             
             <div className="text-sm text-gray-500">
-              Click & drag to select • Double-click to delete • Drag boxes to move
+              {continuingBoxId
+                ? 'Draw where the box continues; change page first if needed • Esc to cancel'
+                : linkingOptionId
+                  ? 'Click the question this option belongs to • Esc to cancel'
+                  : 'Click & drag to select • Double-click to delete • Drag boxes to move'}
             </div>
           </div>
         </div>
@@ -322,51 +477,126 @@ export default function PDFViewerWithOverlay({
                 }}
               >
                 {/* Render existing bounding boxes for current page */}
-                {boundingBoxes
-                  .filter(bbox => bbox.page === currentPage)
-                  .map((bbox) => (
+                {pageBoxes.map((bbox) => {
+                  const style = bbox.suggested ? SUGGESTED_STYLE : BOX_STYLES[bbox.type];
+                  const continuedPages = (bbox.continuations ?? [])
+                    .map(region => region.page)
+                    .filter((page, index, pages) => page !== currentPage && pages.indexOf(page) === index);
+
+                  return (
+                    <div
+                      key={bbox.id}
+                      className={`absolute border-2 pointer-events-none select-none ${style.box} ${
+                        linkingOptionId === bbox.id || continuingBoxId === bbox.id ? 'ring-2 ring-offset-1 ring-gray-700' : ''
+                      }`}
+                      style={{
+                        left: bbox.x,
+                        top: bbox.y,
+                        width: bbox.width,
+                        height: bbox.height,
+                      }}
+                    >
+                      {/* Label */}
+                      <div className={`absolute -top-6 left-0 flex items-center space-x-1 px-2 py-1 text-xs text-white rounded ${style.label}`}>
+                        <span className="pointer-events-none">
+                          {bbox.suggested ? `suggested ${bbox.type}` : getBoxLabel(bbox)}
+                          {continuedPages.length > 0 && ` ↪ p.${continuedPages.join(', ')}`}
+                        </span>
+                        {CONTINUABLE_TYPES.includes(bbox.type) && !bbox.suggested && (
+                          <button
+                            title="Add a region this box continues into (next column or page)"
+                            className="pointer-events-auto hover:bg-black hover:bg-opacity-20 rounded"
+                            onMouseDown={(e) => e.stopPropagation()}
+                            onClick={() => setContinuingBoxId(continuingBoxId === bbox.id ? null : bbox.id)}
+                          >
+                            <CornerDownRight className="h-3 w-3" />
+                          </button>
+                        )}
+                        {bbox.type === 'option' && !bbox.suggested && (
+                          <button
+                            title="Link to a different question"
+                            className="pointer-events-auto hover:bg-green-600 rounded"
+                            onMouseDown={(e) => e.stopPropagation()}
+                            onClick={() => setLinkingOptionId(linkingOptionId === bbox.id ? null : bbox.id)}
+                          >
+                            <Link2 className="h-3 w-3" />
+                          </button>
+                        )}
+                        {bbox.suggested && (
+                          <>
+                            <button
+                              title="Accept suggestion"
+                              className="pointer-events-auto hover:bg-amber-600 rounded"
+                              onMouseDown={(e) => e.stopPropagation()}
+                              onClick={() => onBoundingBoxUpdate(bbox.id, { suggested: false })}
+                            >
+                              <Check className="h-3 w-3" />
+                            </button>
+                            <button
+                              title="Reject suggestion"
+                              className="pointer-events-auto hover:bg-amber-600 rounded"
+                              onMouseDown={(e) => e.stopPropagation()}
+                              onClick={() => onBoundingBoxDelete(bbox.id)}
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          </>
+                        )}
+                      </div>
+                      
+                      {/* Resize handle */}
+                      <div
+                        className={`absolute -right-1 -bottom-1 w-3 h-3 ${style.label} cursor-se-resize pointer-events-auto`}
+                        onMouseDown={(e) => {
+                          e.stopPropagation();
+                          // Handle resize logic here if needed
+                        }}
+                      />
+                    </div>
+                  );
+                })}
+
+                {/* Continuation regions, linked to the part they follow when it is on this page */}
+                {pageContinuations.length > 0 && (
+                  <svg className="absolute inset-0 w-full h-full pointer-events-none overflow-visible">
+                    {pageContinuations
+                      .filter(({ previous }) => previous.page === currentPage)
+                      .map(({ bbox, index, region, previous }) => (
+                        <line
+                          key={`${bbox.id}-${index}`}
+                          x1={previous.x + previous.width / 2}
+                          y1={previous.y + previous.height}
+                          x2={region.x + region.width / 2}
+                          y2={region.y}
+                          stroke="#374151"
+                          strokeWidth={2}
+                          strokeDasharray="6 4"
+                        />
+                      ))}
+                  </svg>
+                )}
+                {pageContinuations.map(({ bbox, region, index, previous }) => (
                   <div
-                    key={bbox.id}
-                    className={`absolute border-2 pointer-events-none select-none ${
-                      bbox.type === 'question' 
-                        ? 'border-blue-500 bg-blue-500 bg-opacity-20' 
-                        : 'border-green-500 bg-green-500 bg-opacity-20'
-                    }`}
+                    key={`${bbox.id}-${index}`}
+                    className={`absolute border-2 border-dashed pointer-events-none select-none ${BOX_STYLES[bbox.type].preview}`}
                     style={{
-                      left: bbox.x,
-                      top: bbox.y,
-                      width: bbox.width,
-                      height: bbox.height,
+                      left: region.x,
+                      top: region.y,
+                      width: region.width,
+                      height: region.height,
                     }}
                   >
-                    {/* Label */}
-                    <div className={`absolute -top-6 left-0 px-2 py-1 text-xs text-white rounded pointer-events-none ${
-                      bbox.type === 'question' ? 'bg-blue-500' : 'bg-green-500'
-                    }`}>
-                      {bbox.type} #{bbox.id.split('-')[1]?.slice(0, 4) || 'new'}
+                    <div className={`absolute -top-6 left-0 px-2 py-1 text-xs text-white rounded whitespace-nowrap ${BOX_STYLES[bbox.type].label}`}>
+                      {getBoxLabel(bbox)} cont. {index}
+                      {previous.page !== currentPage && ` from p.${previous.page}`}
                     </div>
-                    
-                    {/* Resize handle */}
-                    <div
-                      className={`absolute -right-1 -bottom-1 w-3 h-3 ${
-                        bbox.type === 'question' ? 'bg-blue-500' : 'bg-green-500'
-                      } cursor-se-resize pointer-events-auto`}
-                      onMouseDown={(e) => {
-                        e.stopPropagation();
-                        // Handle resize logic here if needed
-                      }}
-                    />
                   </div>
                 ))}
 
                 {/* Show current drawing box */}
                 {drawingBox && (
                   <div
-                    className={`absolute border-2 border-dashed pointer-events-none select-none ${
-                      selectedType === 'question' 
-                        ? 'border-blue-500 bg-blue-500 bg-opacity-10' 
-                        : 'border-green-500 bg-green-500 bg-opacity-10'
-                    }`}
+                    className={`absolute border-2 border-dashed pointer-events-none select-none ${BOX_STYLES[previewType].preview}`}
                     style={{
                       left: drawingBox.left,
                       top: drawingBox.top,
@@ -375,10 +605,8 @@ export default function PDFViewerWithOverlay({
                     }}
                   >
                     {/* Preview label */}
-                    <div className={`absolute -top-6 left-0 px-2 py-1 text-xs text-white rounded ${
-                      selectedType === 'question' ? 'bg-blue-500' : 'bg-green-500'
-                    }`}>
-                      {selectedType}
+                    <div className={`absolute -top-6 left-0 px-2 py-1 text-xs text-white rounded ${BOX_STYLES[previewType].label}`}>
+                      {continuedBox ? `${getBoxLabel(continuedBox)} cont.` : selectedType}
                     </div>
                   </div>
                 )}
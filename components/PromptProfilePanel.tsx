@@ -0,0 +1,243 @@
+import React, { useState } from 'react';
+import { Library, Copy, Pencil, Trash2, Upload, Download, Check, X } from 'lucide-react';
+import { DEFAULT_PROMPT_PROFILE, createPromptProfileId } from '../lib/prompt-profiles';
+import type { PromptProfile, PromptProfileSelection } from '../lib/prompt-profiles';
+
+interface PromptProfilePanelProps {
+  // Built-in profiles followed by the user's own
+  profiles: PromptProfile[];
+  selection: PromptProfileSelection;
+  currentPage: number;
+  // Called with the user's own profiles only
+  onProfilesChange: (profiles: PromptProfile[]) => void;
+  onSelectionChange: (selection: PromptProfileSelection) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+  disabled?: boolean;
+}
+
+export default function PromptProfilePanel({
+  profiles,
+  selection,
+  currentPage,
+  onProfilesChange,
+  onSelectionChange,
+  onImport,
+  onExport,
+  disabled = false,
+}: PromptProfilePanelProps) {
+  // A copy of the profile being edited, saved back only on "Save"
+  const [draft, setDraft] = useState<PromptProfile | null>(null);
+
+  const customProfiles = profiles.filter(profile => !profile.builtIn);
+  const profileName = (id: string) => profiles.find(profile => profile.id === id)?.name ?? id;
+  const overriddenPages = Object.keys(selection.pages).map(Number).sort((a, b) => a - b);
+
+  const setPageProfile = (id: string) => {
+    const pages = { ...selection.pages };
+    if (id) {
+      pages[currentPage] = id;
+    } else {
+      delete pages[currentPage];
+    }
+    onSelectionChange({ ...selection, pages });
+  };
+
+  const copyProfile = (profile: PromptProfile) => {
+    const copy: PromptProfile = {
+      id: createPromptProfileId(),
+      name: `${profile.name} (copy)`,
+      description: profile.description,
+      instructions: profile.instructions,
+    };
+    onProfilesChange([...customProfiles, copy]);
+    setDraft(copy);
+  };
+
+  const saveDraft = () => {
+    if (!draft || !draft.name.trim() || !draft.instructions.trim()) return;
+    onProfilesChange(customProfiles.map(profile => profile.id === draft.id ? draft : profile));
+    setDraft(null);
+  };
+
+  // Projects and pages using a deleted profile go back to the default one
+  const deleteProfile = (id: string) => {
+    onProfilesChange(customProfiles.filter(profile => profile.id !== id));
+    const pages = { ...selection.pages };
+    Object.keys(pages).forEach(page => {
+      if (pages[Number(page)] === id) delete pages[Number(page)];
+    });
+    onSelectionChange({
+      defaultId: selection.defaultId === id ? DEFAULT_PROMPT_PROFILE.id : selection.defaultId,
+      pages,
+    });
+    if (draft?.id === id) setDraft(null);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <div className="flex items-center space-x-2 mb-4">
+        <Library className="h-5 w-5 text-gray-600" />
+        <h3 className="text-lg font-semibold text-gray-900">Prompt Profiles</h3>
+      </div>
+
+      <p className="text-xs text-gray-500 mb-3">
+        Tell Gemini how to write the notation of the subject. The profile used is recorded with each question.
+      </p>
+
+      <div className="space-y-3 mb-4">
+        <label className="block text-sm text-gray-700">
+          <span className="block font-medium mb-1">Project</span>
+          <select
+            value={selection.defaultId}
+            onChange={(e) => onSelectionChange({ ...selection, defaultId: e.target.value })}
+            disabled={disabled}
+            className="w-full p-2 border border-gray-300 rounded text-sm"
+          >
+            {profiles.map(profile => (
+              <option key={profile.id} value={profile.id}>{profile.name}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="block text-sm text-gray-700">
+          <span className="block font-medium mb-1">Page {currentPage}</span>
+          <select
+            value={selection.pages[currentPage] ?? ''}
+            onChange={(e) => setPageProfile(e.target.value)}
+            disabled={disabled}
+            className="w-full p-2 border border-gray-300 rounded text-sm"
+          >
+            <option value="">Same as project</option>
+            {profiles.map(profile => (
+              <option key={profile.id} value={profile.id}>{profile.name}</option>
+            ))}
+          </select>
+        </label>
+
+        {overriddenPages.length > 0 && (
+          <p className="text-xs text-gray-500">
+            Own profile on {overriddenPages.map(page => `p.${page} (${profileName(selection.pages[page])})`).join(', ')}
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-2 mb-4">
+        {profiles.map(profile => (
+          draft?.id === profile.id ? (
+            <div key={profile.id} className="border border-blue-300 rounded p-2 space-y-2">
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                className="w-full p-1 border border-gray-300 rounded text-sm"
+                placeholder="Name"
+              />
+              <input
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                className="w-full p-1 border border-gray-300 rounded text-xs"
+                placeholder="Description"
+              />
+              <textarea
+                value={draft.instructions}
+                onChange={(e) => setDraft({ ...draft, instructions: e.target.value })}
+                className="w-full p-1 border border-gray-300 rounded text-xs font-mono"
+                rows={6}
+                placeholder="- One notation rule per line"
+              />
+              <div className="flex space-x-2">
+                <button
+                  onClick={saveDraft}
+                  disabled={!draft.name.trim() || !draft.instructions.trim()}
+                  className="flex items-center space-x-1 px-2 py-1 bg-green-600 text-white text-xs rounded hover:bg-green-700 disabled:opacity-50"
+                >
+                  <Check className="h-3 w-3" />
+                  <span>Save</span>
+                </button>
+                <button
+                  onClick={() => setDraft(null)}
+                  className="flex items-center space-x-1 px-2 py-1 bg-gray-600 text-white text-xs rounded hover:bg-gray-700"
+                >
+                  <X className="h-3 w-3" />
+                  <span>Cancel</span>
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div key={profile.id} className="flex items-start justify-between text-sm" title={profile.instructions}>
+              <div>
+                <div className="text-gray-900">
+                  {profile.name}
+                  {profile.builtIn && <span className="ml-1 text-xs text-gray-400">built-in</span>}
+                </div>
+                <div className="text-xs text-gray-500">{profile.description}</div>
+              </div>
+              <div className="flex items-center space-x-1 flex-shrink-0">
+                <button
+                  onClick={() => copyProfile(profile)}
+                  disabled={disabled}
+                  className="p-1 text-gray-500 hover:text-blue-600 disabled:opacity-50"
+                  title="Copy into a new profile"
+                >
+                  <Copy className="h-3 w-3" />
+                </button>
+                {!profile.builtIn && (
+                  <>
+                    <button
+                      onClick={() => setDraft(profile)}
+                      disabled={disabled}
+                      className="p-1 text-gray-500 hover:text-blue-600 disabled:opacity-50"
+                      title="Edit"
+                    >
+                      <Pencil className="h-3 w-3" />
+                    </button>
+                    <button
+                      onClick={() => deleteProfile(profile.id)}
+                      disabled={disabled}
+                      className="p-1 text-gray-500 hover:text-red-600 disabled:opacity-50"
+                      title="Delete"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          )
+        ))}
+      </div>
+
+      <div className="flex items-center space-x-3">
+        <input
+          type="file"
+          accept=".json,application/json"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            // Let the same file be picked again after fixing it
+            e.target.value = '';
+          }}
+          className="hidden"
+          id="prompt-library-import"
+          disabled={disabled}
+        />
+        <label
+          htmlFor="prompt-library-import"
+          className="flex items-center space-x-1 text-xs text-blue-600 hover:text-blue-700 cursor-pointer"
+        >
+          <Upload className="h-3 w-3" />
+          <span>Import</span>
+        </label>
+        <button
+          onClick={onExport}
+          disabled={customProfiles.length === 0}
+          className="flex items-center space-x-1 text-xs text-blue-600 hover:text-blue-700 disabled:opacity-50"
+          title={customProfiles.length === 0 ? 'Copy a profile first; built-in profiles are not exported' : undefined}
+        >
+          <Download className="h-3 w-3" />
+          <span>Export</span>
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import React from 'react';
+import { Brain, ScanLine, FileText, Layers } from 'lucide-react';
+import { EXTRACTION_PROVIDERS } from '../lib/extraction-providers';
+import { EXTRACTION_CONCURRENCY_OPTIONS, EXTRACTION_DPI_OPTIONS } from '../lib/extraction-pipeline';
+import { getBudgetWarning } from '../lib/usage-utils';
+import type { ExtractionProviderId, UsageBudget } from '../lib/types';
+
+interface ProviderSelectorProps {
+  selectedProvider: ExtractionProviderId;
+  onProviderChange: (provider: ExtractionProviderId) => void;
+  hasApiKey: boolean;
+  // The Gemini model a run would use, to tell whether its cost can be estimated
+  geminiModel: string;
+  extractionDpi: number;
+  onExtractionDpiChange: (dpi: number) => void;
+  concurrency: number;
+  onConcurrencyChange: (concurrency: number) => void;
+  budget: UsageBudget;
+  onBudgetChange: (budget: UsageBudget) => void;
+  disabled?: boolean;
+}
+
+const PROVIDER_ICONS: Record<ExtractionProviderId, React.ComponentType<{ className?: string }>> = {
+  gemini: Brain,
+  tesseract: ScanLine,
+  'text-layer': FileText,
+  hybrid: Layers,
+};
+
+export default function ProviderSelector({
+  selectedProvider,
+  onProviderChange,
+  hasApiKey,
+  geminiModel,
+  extractionDpi,
+  onExtractionDpiChange,
+  concurrency,
+  onConcurrencyChange,
+  budget,
+  onBudgetChange,
+  disabled = false,
+}: ProviderSelectorProps) {
+  // Budgets only apply to providers that call the billed Gemini API
+  const usesGemini = selectedProvider === 'gemini' || (selectedProvider === 'hybrid' && hasApiKey);
+  const budgetWarning = getBudgetWarning(geminiModel, budget);
+
+  const parseLimit = (value: string): number | undefined => {
+    const limit = Number(value);
+    return value.trim() && !isNaN(limit) && limit > 0 ? limit : undefined;
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">
+        Extraction Provider
+      </h3>
+      <div className="space-y-2">
+        {Object.values(EXTRACTION_PROVIDERS).map((provider) => {
+          const Icon = PROVIDER_ICONS[provider.id];
+          const unavailable = provider.requiresApiKey && !hasApiKey;
+
+          return (
+            <label
+              key={provider.id}
+              className={`flex items-start space-x-3 p-3 rounded-lg border transition-colors ${
+                selectedProvider === provider.id
+                  ? 'border-blue-500 bg-blue-50'
+                  : 'border-gray-200 hover:bg-gray-50'
+              } ${unavailable || disabled ? 'opacity-60 cursor-not-allowed' : 'cursor-pointer'}`}
+            >
+              <input
+                type="radio"
+                name="extraction-provider"
+                value={provider.id}
+                checked={selectedProvider === provider.id}
+                onChange={() => onProviderChange(provider.id)}
+                disabled={unavailable || disabled}
+                className="mt-1 text-blue-600 focus:ring-blue-500"
+              />
+              <Icon className="h-5 w-5 text-gray-600 mt-0.5 flex-shrink-0" />
+              <div>
+                <div className="text-sm font-medium text-gray-900">{provider.name}</div>
+                <div className="text-xs text-gray-500">{provider.description}</div>
+                {unavailable && (
+                  <div className="text-xs text-red-600 mt-1">Requires a Gemini API key</div>
+                )}
+              </div>
+            </label>
+          );
+        })}
+      </div>
+
+      <div className="mt-4 flex items-center justify-between">
+        <label className="text-sm text-gray-600">Extraction resolution:</label>
+        <select
+          value={extractionDpi}
+          onChange={(e) => onExtractionDpiChange(Number(e.target.value))}
+          disabled={disabled}
+          className="px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {EXTRACTION_DPI_OPTIONS.map((dpi) => (
+            <option key={dpi} value={dpi}>{dpi} DPI</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="mt-3 flex items-center justify-between">
+        <label className="text-sm text-gray-600">Parallel requests:</label>
+        <select
+          value={concurrency}
+          onChange={(e) => onConcurrencyChange(Number(e.target.value))}
+          disabled={disabled}
+          className="px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {EXTRACTION_CONCURRENCY_OPTIONS.map((count) => (
+            <option key={count} value={count}>{count}</option>
+          ))}
+        </select>
+      </div>
+
+      {usesGemini && (
+        <div className="mt-4 border-t pt-4">
+          <div className="text-sm text-gray-600 mb-2">Run budget (stops the run when reached):</div>
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="number"
+              min={0}
+              step={1000}
+              value={budget.maxTokens ?? ''}
+              onChange={(e) => onBudgetChange({ ...budget, maxTokens: parseLimit(e.target.value) })}
+              placeholder="Max tokens"
+              disabled={disabled}
+              className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <input
+              type="number"
+              min={0}
+              step={0.01}
+              value={budget.maxCostUsd ?? ''}
+              onChange={(e) => onBudgetChange({ ...budget, maxCostUsd: parseLimit(e.target.value) })}
+              placeholder="Max cost (USD)"
+              disabled={disabled}
+              className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          {budgetWarning && <p className="mt-2 text-xs text-amber-700">{budgetWarning}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
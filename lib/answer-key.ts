@@ -0,0 +1,353 @@
+// lib/answer-key.ts
+import type * as pdfjsLib from 'pdfjs-dist';
+import { getOptionLabel } from './label-utils';
+import { parseQuestionNumber } from './layout-analyser';
+import { PageRenderer } from './page-renderer';
+import { DEFAULT_RENDER_SCALE, extractTextFromBoundingBox, getPageText, scaleBoundingBox } from './pdf-utils';
+import { QUESTION_TYPES, getQuestionType } from './question-types';
+import type { ExtractionProvider } from './extraction-providers';
+import type { BoundingBox, MCQ } from './types';
+
+export interface AnswerKeyEntry {
+  questionNumber: number;
+  // Option label as printed, normalised by normalizeAnswerLabel: "B", "3" or "iii"
+  label: string;
+}
+
+export interface AnswerKey {
+  answers: Record<number, string>;
+  // Question numbers the key lists more than once with different answers
+  duplicates: number[];
+}
+
+export interface AnswerKeyIssue {
+  mcqId: string;
+  questionNumber: number;
+  reason: string;
+}
+
+export interface AnswerKeyReport {
+  // Where the key was read from, e.g. "2 marked regions" or "page 14"
+  source: string;
+  applied: number;
+  // Already set to the key's answer
+  unchanged: number;
+  conflicts: AnswerKeyIssue[];
+  unanswered: Array<{ mcqId: string; questionNumber: number }>;
+  // Key entries that matched no extracted question
+  unmatched: number[];
+}
+
+const OPTION_LABELS = 'ABCDEFGH';
+
+// Numbers up to this can be option labels, as in "1 (3)" or "1-3"
+const MAX_NUMERIC_LABEL = OPTION_LABELS.length;
+
+const ROMAN_LABELS = ['i', 'ii', 'iii', 'iv', 'v', 'vi', 'vii', 'viii'];
+
+// Words that commonly sit between a number and its label ("Q1 Ans: B") and carry no meaning
+const FILLER_WORDS = ['q', 'qn', 'qno', 'no', 'ans', 'answer', 'answers', 'key', 'question', 'questions'];
+
+const ANSWER_KEY_HEADING = /answer\s*key|answers|key\s+to|solutions?\s+key/i;
+
+// An option label without brackets or dots, in one spelling per label: letters
+// A-H upper-case, numbers without leading zeros and roman numerals lower-case.
+// Anything else is not an option label.
+export const normalizeAnswerLabel = (label: string): string | null => {
+  const bare = label.replace(/[().\s]/g, '');
+  if (/^\d{1,2}$/.test(bare) && Number(bare) >= 1 && Number(bare) <= MAX_NUMERIC_LABEL) {
+    return String(Number(bare));
+  }
+  if (ROMAN_LABELS.indexOf(bare.toLowerCase()) >= 0 && !(bare.length === 1 && OPTION_LABELS.indexOf(bare.toUpperCase()) >= 0)) {
+    return bare.toLowerCase();
+  }
+  if (bare.length === 1 && OPTION_LABELS.indexOf(bare.toUpperCase()) >= 0) {
+    return bare.toUpperCase();
+  }
+  return null;
+};
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'label'; value: string }
+  | { kind: 'separator' }
+  | { kind: 'other' };
+
+const tokenize = (text: string): Token[] => {
+  const words = text.match(/\(\s*[A-Za-z\d]+\s*\)|\d+|[A-Za-z]+|[-–:=→]/g) || [];
+  const tokens = words
+    .filter(word => FILLER_WORDS.indexOf(word.toLowerCase()) === -1)
+    .map((word): Token => {
+      if (/^[-–:=→]$/.test(word)) return { kind: 'separator' };
+      // A bracketed number is always a label: "1 (3)"
+      if (word.startsWith('(')) {
+        const label = normalizeAnswerLabel(word);
+        return label ? { kind: 'label', value: label } : { kind: 'other' };
+      }
+      if (/^\d{1,3}$/.test(word)) return { kind: 'number', value: Number(word) };
+      const label = normalizeAnswerLabel(word);
+      return label ? { kind: 'label', value: label } : { kind: 'other' };
+    });
+
+  // A number joined to the number before it ("1-3", "1: 3") is that question's label
+  return tokens
+    .map((token, index) => {
+      const previous = tokens[index - 1];
+      const beforePrevious = tokens[index - 2];
+      return token.kind === 'number' && token.value <= MAX_NUMERIC_LABEL &&
+        previous?.kind === 'separator' && beforePrevious?.kind === 'number'
+        ? { kind: 'label', value: String(token.value) } as Token
+        : token;
+    })
+    .filter(token => token.kind !== 'separator');
+};
+
+// How many numbers from `start` count up by one (1 2 3 4), within a run of `runLength` numbers
+const countConsecutive = (tokens: Token[], start: number, runLength: number): number => {
+  const first = (tokens[start] as { value: number }).value;
+  let count = 1;
+  while (count < runLength && (tokens[start + count] as { value: number }).value === first + count) count++;
+  return count;
+};
+
+// Understands "1-B, 2-D", "1. (b)  2. (d)", "Q1: B", numeric and roman labels
+// ("1 (3)", "1-3", "2 (iv)") and tables printed as a row of numbers followed by a
+// row of labels ("1 2 3 4 / B D A C" or "1 2 3 4 / 2 4 1 3")
+export const parseAnswerKey = (text: string): AnswerKeyEntry[] => {
+  const tokens = tokenize(text);
+  const entries: AnswerKeyEntry[] = [];
+
+  let i = 0;
+  while (i < tokens.length) {
+    const token = tokens[i];
+    if (token.kind !== 'number') {
+      i++;
+      continue;
+    }
+
+    let runLength = 0;
+    while (i + runLength < tokens.length && tokens[i + runLength].kind === 'number') runLength++;
+
+    if (runLength > 1) {
+      const labels = tokens.slice(i + runLength, i + runLength * 2);
+      if (labels.length === runLength && labels.every(label => label.kind === 'label')) {
+        for (let k = 0; k < runLength; k++) {
+          entries.push({
+            questionNumber: (tokens[i + k] as { value: number }).value,
+            label: (labels[k] as { value: string }).value,
+          });
+        }
+        i += runLength * 2;
+        continue;
+      }
+
+      // Without letters both rows are numbers: question numbers counting up,
+      // then as many small numbers. The longest row that fits wins.
+      let rowLength = countConsecutive(tokens, i, runLength);
+      while (rowLength > 1 && (
+        rowLength * 2 > runLength ||
+        !tokens.slice(i + rowLength, i + rowLength * 2).every(answer => (answer as { value: number }).value <= MAX_NUMERIC_LABEL)
+      )) rowLength--;
+      if (rowLength > 1) {
+        for (let k = 0; k < rowLength; k++) {
+          entries.push({
+            questionNumber: (tokens[i + k] as { value: number }).value,
+            label: String((tokens[i + rowLength + k] as { value: number }).value),
+          });
+        }
+        i += rowLength * 2;
+        continue;
+      }
+    }
+
+    // Only the last number of a run can be paired with the label after it
+    const last = i + runLength - 1;
+    const next = tokens[last + 1];
+    if (next && next.kind === 'label') {
+      entries.push({ questionNumber: (tokens[last] as { value: number }).value, label: next.value });
+      i = last + 2;
+    } else {
+      i = last + 1;
+    }
+  }
+
+  return entries;
+};
+
+// The option a key label picks: the one printed with that label, or for
+// questions without printed labels the label's position (B, 2 and ii are all
+// the second option)
+export const findAnswerOptionIndex = (mcq: MCQ, label: string): number => {
+  const printed = (mcq.optionLabels ?? []).map(optionLabel => normalizeAnswerLabel(optionLabel));
+  if (printed.indexOf(label) >= 0) return printed.indexOf(label);
+
+  if (/^\d+$/.test(label)) return Number(label) - 1;
+  if (ROMAN_LABELS.indexOf(label) >= 0) return ROMAN_LABELS.indexOf(label);
+  return OPTION_LABELS.indexOf(label);
+};
+
+export const buildAnswerKey = (entries: AnswerKeyEntry[]): AnswerKey => {
+  const answers: Record<number, string> = {};
+  const duplicates: number[] = [];
+
+  entries.forEach(({ questionNumber, label }) => {
+    const existing = answers[questionNumber];
+    if (existing === undefined) {
+      answers[questionNumber] = label;
+    } else if (existing !== label && duplicates.indexOf(questionNumber) === -1) {
+      duplicates.push(questionNumber);
+    }
+  });
+
+  return { answers, duplicates };
+};
+
+// A page counts as an answer key when number/letter pairs make up most of its
+// text, or when it has an "Answer Key" heading and at least a few pairs
+export const isAnswerKeyText = (text: string): boolean => {
+  const pairs = parseAnswerKey(text).length;
+  const words = (text.match(/\d+|[A-Za-z]+/g) || []).length;
+  if (pairs >= 3 && ANSWER_KEY_HEADING.test(text)) return true;
+  return pairs >= 5 && (pairs * 2) / words >= 0.6;
+};
+
+// Scans the embedded text layer, so scanned PDFs need the answer key marked by hand
+export const findAnswerKeyPages = async (pdf: pdfjsLib.PDFDocumentProxy): Promise<number[]> => {
+  const pages: number[] = [];
+  for (let page = 1; page <= pdf.numPages; page++) {
+    const text = await getPageText(pdf, page);
+    if (isAnswerKeyText(text)) pages.push(page);
+  }
+  return pages;
+};
+
+// Reads marked regions from the text layer, falling back to the provider for
+// regions with no embedded text (scanned pages)
+export const readAnswerKeyRegions = async (
+  pdf: pdfjsLib.PDFDocumentProxy,
+  regions: BoundingBox[],
+  provider?: ExtractionProvider
+): Promise<string> => {
+  const renderer = new PageRenderer(pdf, DEFAULT_RENDER_SCALE);
+  const texts: string[] = [];
+
+  try {
+    for (const region of regions) {
+      let text = await extractTextFromBoundingBox(pdf, region.page, region, region.scale ?? DEFAULT_RENDER_SCALE);
+      if (!text.trim() && provider) {
+        const canvas = await renderer.getPageCanvas(region.page);
+        const result = await provider.extractTextFromCanvas(canvas, scaleBoundingBox(region, renderer.scale), 'question');
+        text = result.text;
+      }
+      texts.push(text);
+    }
+  } finally {
+    await renderer.clear();
+  }
+
+  return texts.join('\n');
+};
+
+export const loadAnswerKey = async (
+  pdf: pdfjsLib.PDFDocumentProxy,
+  boxes: BoundingBox[],
+  provider?: ExtractionProvider
+): Promise<{ key: AnswerKey; source: string } | null> => {
+  const regions = boxes.filter(bbox => bbox.type === 'answer-key' && !bbox.suggested);
+
+  if (regions.length > 0) {
+    const entries = parseAnswerKey(await readAnswerKeyRegions(pdf, regions, provider));
+    return entries.length > 0
+      ? { key: buildAnswerKey(entries), source: `${regions.length} marked region${regions.length === 1 ? '' : 's'}` }
+      : null;
+  }
+
+  const pages = await findAnswerKeyPages(pdf);
+  if (pages.length === 0) return null;
+
+  const texts = await Promise.all(pages.map(page => getPageText(pdf, page)));
+  const entries = parseAnswerKey(texts.join('\n'));
+  return entries.length > 0
+    ? { key: buildAnswerKey(entries), source: `page${pages.length === 1 ? '' : 's'} ${pages.join(', ')}` }
+    : null;
+};
+
+// Questions are matched by their printed number (still part of the text in
+// questions saved before it was stored separately), or by their position when
+// the number was not captured
+export const getMCQQuestionNumber = (mcq: MCQ, index: number): number => {
+  return mcq.questionNumber ?? parseQuestionNumber(mcq.question) ?? index + 1;
+};
+
+export const applyAnswerKey = (
+  mcqs: MCQ[],
+  answerKey: { key: AnswerKey; source: string },
+  { overwrite = false }: { overwrite?: boolean } = {}
+): { mcqs: MCQ[]; report: AnswerKeyReport } => {
+  const { answers, duplicates } = answerKey.key;
+  const report: AnswerKeyReport = {
+    source: answerKey.source,
+    applied: 0,
+    unchanged: 0,
+    conflicts: [],
+    unanswered: [],
+    unmatched: [],
+  };
+
+  const numbers = mcqs.map(getMCQQuestionNumber);
+  const seen = new Set<number>();
+
+  const updated = mcqs.map((mcq, index) => {
+    const questionNumber = numbers[index];
+    seen.add(questionNumber);
+    const conflict = (reason: string) => {
+      report.conflicts.push({ mcqId: mcq.id, questionNumber, reason });
+      return mcq;
+    };
+
+    if (numbers.indexOf(questionNumber) !== numbers.lastIndexOf(questionNumber)) {
+      return conflict(`Question number ${questionNumber} is used by more than one question`);
+    }
+
+    const label = answers[questionNumber];
+    if (label === undefined) {
+      report.unanswered.push({ mcqId: mcq.id, questionNumber });
+      return mcq;
+    }
+
+    if (duplicates.indexOf(questionNumber) >= 0) {
+      return conflict('The answer key lists this question more than once with different answers');
+    }
+
+    // A single label only answers types with exactly one correct option
+    const questionType = getQuestionType(mcq);
+    if (questionType === 'multiple' || questionType === 'numeric' || questionType === 'match') {
+      return conflict(`Answer ${label} but ${QUESTION_TYPES[questionType].name} answers must be set by hand`);
+    }
+
+    const answer = mcq.options[findAnswerOptionIndex(mcq, label)];
+    if (answer === undefined) {
+      return conflict(`Answer ${label} but the question only has ${mcq.options.length} options`);
+    }
+
+    if (mcq.correct_answer === answer) {
+      report.unchanged++;
+      return mcq;
+    }
+
+    if (mcq.correct_answer && !overwrite) {
+      const current = mcq.options.indexOf(mcq.correct_answer);
+      return conflict(`Answer key says ${label} but ${current >= 0 ? getOptionLabel(mcq, current) : 'another answer'} is already selected`);
+    }
+
+    report.applied++;
+    return { ...mcq, correct_answer: answer };
+  });
+
+  report.unmatched = Object.keys(answers)
+    .map(Number)
+    .filter(questionNumber => !seen.has(questionNumber))
+    .sort((a, b) => a - b);
+
+  return { mcqs: updated, report };
+};
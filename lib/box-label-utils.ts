@@ -0,0 +1,40 @@
+// lib/box-label-utils.ts
+import { getOptionsByQuestion } from './option-utils';
+import { optionLabel } from './question-types';
+import type { BoundingBox } from './types';
+
+// Questions are numbered in the order they were drawn, as in the extracted results
+export const getQuestionIds = (boxes: BoundingBox[]): string[] => boxes
+  .filter(bbox => bbox.type === 'question' && !bbox.suggested)
+  .map(bbox => bbox.id);
+
+// Names for the overlay labels and the sidebar's link pickers, keyed by box id:
+// "question Q3", "option B → Q3" (lettered in its question's reading order), and
+// "passage 2" or "figure 1" for the other types, counted in drawing order.
+// Suggested boxes are left out.
+export const getBoxNames = (boxes: BoundingBox[]): Record<string, string> => {
+  const names: Record<string, string> = {};
+  const questionIds = getQuestionIds(boxes);
+  const optionsByQuestion = getOptionsByQuestion(boxes);
+  const typeCounts: Record<string, number> = {};
+
+  boxes.filter(bbox => !bbox.suggested).forEach(bbox => {
+    if (bbox.type === 'question') {
+      names[bbox.id] = `question Q${questionIds.indexOf(bbox.id) + 1}`;
+    } else if (bbox.type === 'option') {
+      // Replaced below when the option has a question
+      names[bbox.id] = 'option';
+    } else {
+      typeCounts[bbox.type] = (typeCounts[bbox.type] ?? 0) + 1;
+      names[bbox.id] = `${bbox.type} ${typeCounts[bbox.type]}`;
+    }
+  });
+
+  Object.keys(optionsByQuestion).forEach(questionId => {
+    optionsByQuestion[questionId].forEach((option, index) => {
+      names[option.id] = `option ${optionLabel(index)} → Q${questionIds.indexOf(questionId) + 1}`;
+    });
+  });
+
+  return names;
+};
@@ -0,0 +1,66 @@
+// lib/canvas-utils.ts
+import type { BoundingBox } from './types';
+
+export type CanvasFactory = (width: number, height: number) => HTMLCanvasElement;
+
+let canvasFactory: CanvasFactory = (width, height) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+// Server-side extraction has no document, so it swaps in node-canvas here
+export const setCanvasFactory = (factory: CanvasFactory): void => {
+  canvasFactory = factory;
+};
+
+export const createCanvas = (width: number, height: number): HTMLCanvasElement => {
+  return canvasFactory(Math.max(1, Math.round(width)), Math.max(1, Math.round(height)));
+};
+
+export const cropCanvas = (canvas: HTMLCanvasElement, bbox: BoundingBox): HTMLCanvasElement => {
+  const croppedCanvas = createCanvas(bbox.width, bbox.height);
+  const ctx = croppedCanvas.getContext('2d')!;
+
+  ctx.drawImage(
+    canvas,
+    bbox.x, bbox.y, bbox.width, bbox.height,
+    0, 0, bbox.width, bbox.height
+  );
+
+  return croppedCanvas;
+};
+
+export const createCombinedCanvas = (
+  canvas: HTMLCanvasElement,
+  questionBox: BoundingBox,
+  optionBoxes: BoundingBox[]
+): HTMLCanvasElement => {
+  // Calculate combined dimensions
+  const allBoxes = [questionBox, ...optionBoxes];
+  const minX = Math.min(...allBoxes.map(b => b.x));
+  const minY = Math.min(...allBoxes.map(b => b.y));
+  const maxX = Math.max(...allBoxes.map(b => b.x + b.width));
+  const maxY = Math.max(...allBoxes.map(b => b.y + b.height));
+
+  const combinedCanvas = createCanvas(maxX - minX, maxY - minY);
+  const ctx = combinedCanvas.getContext('2d')!;
+
+  // Fill with white background
+  ctx.fillStyle = 'white';
+  ctx.fillRect(0, 0, combinedCanvas.width, combinedCanvas.height);
+
+  // Draw the combined area
+  ctx.drawImage(
+    canvas,
+    minX, minY, combinedCanvas.width, combinedCanvas.height,
+    0, 0, combinedCanvas.width, combinedCanvas.height
+  );
+
+  return combinedCanvas;
+};
+
+export const canvasToBase64PNG = (canvas: HTMLCanvasElement): string => {
+  return canvas.toDataURL('image/png').split(',')[1];
+};
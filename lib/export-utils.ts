@@ -0,0 +1,67 @@
+// lib/export-utils.ts
+import { DEFAULT_LABEL_STYLE, applyLabelStyle } from './label-utils';
+import { formatCorrectAnswer, formatQuestionText, getQuestionType } from './question-types';
+import type { LabelStyle } from './label-utils';
+import type { MCQ, Passage } from './types';
+
+const CSV_HEADERS = ['Question', 'Option A', 'Option B', 'Option C', 'Option D', 'Option E', 'Correct Answer', 'Page', 'Explanation', 'Question Type', 'Passage', 'Question Number', 'Option Labels'];
+
+const csvCell = (value: string): string => `"${value.replace(/"/g, '""')}"`;
+
+export const getExportBaseName = (fileName: string): string => fileName.replace('.pdf', '');
+
+// Questions that share a passage are nested under it; `mcqs` keeps the rest.
+// Every question carries its number and option labels in the chosen style.
+export const serializeMCQsAsJSON = (
+  mcqs: MCQ[],
+  fileName: string,
+  passages: Passage[] = [],
+  labelStyle: LabelStyle = DEFAULT_LABEL_STYLE
+): string => {
+  const labelled = mcqs.map((mcq, index) => applyLabelStyle(mcq, index, labelStyle));
+  const grouped = passages
+    .map(passage => ({ ...passage, mcqs: labelled.filter(mcq => mcq.passageId === passage.id) }))
+    .filter(passage => passage.mcqs.length > 0);
+  const groupedIds = new Set(grouped.map(passage => passage.id));
+
+  return JSON.stringify({
+    exportDate: new Date().toISOString(),
+    fileName: fileName,
+    totalQuestions: mcqs.length,
+    labelStyle,
+    ...(grouped.length > 0 ? { passages: grouped } : {}),
+    mcqs: labelled.filter(mcq => !mcq.passageId || !groupedIds.has(mcq.passageId))
+  }, null, 2);
+};
+
+// CSV rows stay flat, so each question repeats its passage text
+export const serializeMCQsAsCSV = (
+  mcqs: MCQ[],
+  passages: Passage[] = [],
+  labelStyle: LabelStyle = DEFAULT_LABEL_STYLE
+): string => {
+  const csvRows = [CSV_HEADERS.join(',')];
+  const passageText = new Map(passages.map(passage => [passage.id, passage.text] as [string, string]));
+
+  mcqs.forEach((original, index) => {
+    const mcq = applyLabelStyle(original, index, labelStyle);
+    const row = [
+      csvCell(formatQuestionText(mcq)),
+      csvCell(mcq.options[0] || ''),
+      csvCell(mcq.options[1] || ''),
+      csvCell(mcq.options[2] || ''),
+      csvCell(mcq.options[3] || ''),
+      csvCell(mcq.options[4] || ''),
+      csvCell(formatCorrectAnswer(mcq)),
+      mcq.page,
+      csvCell(mcq.explanation || ''),
+      getQuestionType(mcq),
+      csvCell((mcq.passageId && passageText.get(mcq.passageId)) || ''),
+      mcq.questionNumber,
+      csvCell((mcq.optionLabels ?? []).join('; '))
+    ];
+    csvRows.push(row.join(','));
+  });
+
+  return csvRows.join('\n');
+};
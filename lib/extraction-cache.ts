@@ -0,0 +1,139 @@
+// lib/extraction-cache.ts
+
+export interface CacheStats {
+  entries: number;
+  sizeBytes: number;
+  hits: number;
+  misses: number;
+}
+
+interface CacheEntry {
+  value: string;
+  timestamp: number;
+}
+
+// 53-bit string hash (cyrb53) for when crypto.subtle is missing. Two seeds are
+// combined by createKey so unrelated crops practically never share a key.
+const hashString = (text: string, seed: number): string => {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+};
+
+// Stores raw model responses keyed by a hash of everything that determines
+// them (image bytes, prompt and model), so identical crops are only billed once
+export class ExtractionCache {
+  private static readonly CACHE_KEY = 'mcq_tool_extraction_cache';
+  private static readonly STATS_KEY = 'mcq_tool_extraction_cache_stats';
+  private static readonly MAX_ENTRIES = 2000;
+  // Measured like getStats' sizeBytes; leaves most of the origin's quota for saved projects
+  private static readonly MAX_SIZE_BYTES = 1024 * 1024;
+
+  // localStorage only exists in the browser; server-side extraction runs uncached
+  static isAvailable(): boolean {
+    return typeof localStorage !== 'undefined';
+  }
+
+  static async createKey(parts: string[]): Promise<string> {
+    // The separator keeps ["ab", "c"] and ["a", "bc"] from colliding
+    const joined = parts.join('\u0000');
+
+    // crypto.subtle only exists on secure origins, not e.g. plain http on a LAN
+    if (typeof crypto === 'undefined' || !crypto.subtle) {
+      return `js-${hashString(joined, 0)}${hashString(joined, 1)}`;
+    }
+
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(joined));
+    return Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  static get(key: string): string | null {
+    if (!this.isAvailable()) return null;
+
+    const entry = this.getEntries()[key];
+    this.recordLookup(entry !== undefined);
+    return entry ? entry.value : null;
+  }
+
+  static set(key: string, value: string): void {
+    if (!this.isAvailable()) return;
+
+    const entries = this.getEntries();
+    entries[key] = { value, timestamp: Date.now() };
+
+    // Drop the oldest responses once the cache is full, by count or by size
+    const keys = Object.keys(entries).sort((a, b) => entries[a].timestamp - entries[b].timestamp);
+    let size = JSON.stringify(entries).length;
+    while (keys.length > 1 && (keys.length > this.MAX_ENTRIES || size > this.MAX_SIZE_BYTES)) {
+      const oldKey = keys.shift() as string;
+      // The key, its colon, the entry and the comma after it
+      size -= JSON.stringify(oldKey).length + JSON.stringify(entries[oldKey]).length + 2;
+      delete entries[oldKey];
+    }
+
+    try {
+      localStorage.setItem(this.CACHE_KEY, JSON.stringify(entries));
+    } catch (error) {
+      // A full cache should never break extraction itself
+      console.error('Failed to write extraction cache:', error);
+    }
+  }
+
+  static getStats(): CacheStats {
+    const raw = localStorage.getItem(this.CACHE_KEY) || '';
+    const { hits, misses } = this.getLookupCounts();
+
+    return {
+      entries: Object.keys(this.getEntries()).length,
+      sizeBytes: raw.length,
+      hits,
+      misses
+    };
+  }
+
+  static clear(): void {
+    localStorage.removeItem(this.CACHE_KEY);
+    localStorage.removeItem(this.STATS_KEY);
+  }
+
+  private static getEntries(): Record<string, CacheEntry> {
+    try {
+      const entries = localStorage.getItem(this.CACHE_KEY);
+      return entries ? JSON.parse(entries) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private static getLookupCounts(): { hits: number; misses: number } {
+    try {
+      const stats = localStorage.getItem(this.STATS_KEY);
+      return stats ? JSON.parse(stats) : { hits: 0, misses: 0 };
+    } catch {
+      return { hits: 0, misses: 0 };
+    }
+  }
+
+  private static recordLookup(hit: boolean): void {
+    const counts = this.getLookupCounts();
+    if (hit) {
+      counts.hits++;
+    } else {
+      counts.misses++;
+    }
+    try {
+      localStorage.setItem(this.STATS_KEY, JSON.stringify(counts));
+    } catch {
+      // Stats are only informational; a full quota must not fail the lookup
+    }
+  }
+}
@@ -0,0 +1,214 @@
+// lib/extraction-jobs.ts
+// Server-side only: runs whole-document extractions in the background and keeps
+// their progress in memory so /api/jobs can report it by polling or SSE.
+import crypto from 'crypto';
+import type * as pdfjsLib from 'pdfjs-dist';
+import { DEFAULT_EXTRACTION_CONCURRENCY, runExtractionPipeline } from './extraction-pipeline';
+import type { ExtractionProvider } from './extraction-providers';
+import type { GeminiExtractor, GeminiSettings } from './gemini-utils';
+import { JobQueue } from './job-queue';
+import { createLayoutDetector, detectLayout, getPageRange } from './layout-detection';
+import type { PromptProfile, PromptProfileSelection } from './prompt-profiles';
+import { createServerProvider } from './server-extraction';
+import { installNodeCanvas, loadStoredPDF } from './server-pdf-utils';
+import type {
+  BoundingBox,
+  ExtractionJobSnapshot,
+  ExtractionJobStatus,
+  ExtractionProviderId,
+  LayoutDetectorId,
+  MCQ,
+  UsageBudget
+} from './types';
+
+export interface AutoDetectRequest {
+  detector?: LayoutDetectorId;
+  // Page range to scan; defaults to the whole document
+  from?: number;
+  to?: number;
+}
+
+export interface ExtractionJobRequest {
+  fileId: string;
+  boundingBoxes?: BoundingBox[];
+  autoDetect?: AutoDetectRequest;
+  providerId: ExtractionProviderId;
+  geminiKey?: string;
+  settings?: Partial<GeminiSettings>;
+  dpi?: number;
+  concurrency?: number;
+  budget?: UsageBudget;
+  promptProfiles?: PromptProfile[];
+  promptProfileSelection?: PromptProfileSelection;
+}
+
+type JobListener = (job: ExtractionJobSnapshot) => void;
+
+interface JobRecord {
+  snapshot: ExtractionJobSnapshot;
+  request: ExtractionJobRequest;
+  queue: JobQueue<MCQ> | null;
+  listeners: Set<JobListener>;
+  cancelRequested: boolean;
+}
+
+// Finished jobs are kept this long so slow pollers still see the result
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+
+// Dev-mode hot reloads re-evaluate modules, so the job table lives on the global object
+const globalStore = globalThis as typeof globalThis & { __extractionJobs?: Map<string, JobRecord> };
+const jobs: Map<string, JobRecord> = globalStore.__extractionJobs ??
+  (globalStore.__extractionJobs = new Map<string, JobRecord>());
+
+export const isJobFinished = (status: ExtractionJobStatus): boolean =>
+  status === 'complete' || status === 'failed' || status === 'cancelled';
+
+const updateJob = (record: JobRecord, updates: Partial<ExtractionJobSnapshot>): void => {
+  record.snapshot = { ...record.snapshot, ...updates, updatedAt: new Date().toISOString() };
+  record.listeners.forEach(listener => listener(record.snapshot));
+  if (isJobFinished(record.snapshot.status)) {
+    record.listeners.clear();
+  }
+};
+
+const pruneFinishedJobs = (): void => {
+  const cutoff = Date.now() - FINISHED_JOB_TTL_MS;
+  jobs.forEach((record, id) => {
+    if (isJobFinished(record.snapshot.status) && Date.parse(record.snapshot.updatedAt) < cutoff) {
+      jobs.delete(id);
+    }
+  });
+};
+
+const detectBoxes = async (
+  record: JobRecord,
+  pdf: pdfjsLib.PDFDocumentProxy,
+  geminiExtractor: GeminiExtractor | null,
+  autoDetect: AutoDetectRequest
+): Promise<BoundingBox[]> => {
+  updateJob(record, { status: 'detecting' });
+
+  const detector = createLayoutDetector(autoDetect.detector ?? 'heuristic', { geminiExtractor, pdf });
+  const suggestions = await detectLayout({
+    pdf,
+    pages: getPageRange(autoDetect.from ?? 1, autoDetect.to ?? pdf.numPages, pdf.numPages),
+    detector,
+    // Detection finishing is not the end of the job, so its final event stays in 'processing'
+    onProgress: progress => updateJob(record, {
+      progress: progress.stage === 'complete' ? { ...progress, stage: 'processing' } : progress
+    }),
+  });
+
+  // Nobody reviews suggestions on the server, so they are extracted as detected
+  return suggestions.map(bbox => ({ ...bbox, suggested: false }));
+};
+
+const runJob = async (record: JobRecord): Promise<void> => {
+  const { request } = record;
+  let pdf: pdfjsLib.PDFDocumentProxy | null = null;
+  let provider: ExtractionProvider | null = null;
+
+  try {
+    installNodeCanvas();
+    pdf = await loadStoredPDF(request.fileId);
+
+    const created = createServerProvider(request.providerId, pdf, request.geminiKey, request.settings);
+    provider = created.provider;
+
+    let boxes = request.boundingBoxes ?? [];
+    if (request.autoDetect) {
+      boxes = boxes.concat(await detectBoxes(record, pdf, created.geminiExtractor, request.autoDetect));
+    }
+
+    if (record.cancelRequested) {
+      updateJob(record, { status: 'cancelled', mcqs: [] });
+      return;
+    }
+
+    const queue = new JobQueue<MCQ>({ concurrency: request.concurrency ?? DEFAULT_EXTRACTION_CONCURRENCY });
+    record.queue = queue;
+    updateJob(record, { status: 'extracting' });
+
+    const result = await runExtractionPipeline({
+      pdf,
+      boundingBoxes: boxes,
+      provider,
+      dpi: request.dpi,
+      queue,
+      budget: request.budget,
+      promptProfiles: request.promptProfiles,
+      promptProfileSelection: request.promptProfileSelection,
+      onProgress: progress => updateJob(record, { progress }),
+    });
+
+    updateJob(record, {
+      status: queue.getState() === 'cancelled' ? 'cancelled' : 'complete',
+      mcqs: result.mcqs,
+      passages: result.passages,
+      usage: result.usage,
+      error: record.snapshot.progress?.error,
+    });
+  } catch (error) {
+    console.error(`Extraction job ${record.snapshot.id} failed:`, error);
+    updateJob(record, { status: 'failed', error: (error as Error).message });
+  } finally {
+    record.queue = null;
+    await provider?.dispose?.();
+    await pdf?.destroy();
+  }
+};
+
+export const submitExtractionJob = (request: ExtractionJobRequest): ExtractionJobSnapshot => {
+  pruneFinishedJobs();
+
+  const now = new Date().toISOString();
+  const record: JobRecord = {
+    snapshot: {
+      id: crypto.randomUUID(),
+      fileId: request.fileId,
+      status: 'queued',
+      provider: request.providerId,
+      progress: null,
+      createdAt: now,
+      updatedAt: now,
+    },
+    request,
+    queue: null,
+    listeners: new Set(),
+    cancelRequested: false,
+  };
+  jobs.set(record.snapshot.id, record);
+
+  // The caller gets the job id straight away; progress is read back through the store
+  void runJob(record);
+
+  return record.snapshot;
+};
+
+export const getExtractionJob = (id: string): ExtractionJobSnapshot | null => {
+  return jobs.get(id)?.snapshot ?? null;
+};
+
+export const subscribeExtractionJob = (id: string, listener: JobListener): (() => void) => {
+  const record = jobs.get(id);
+  if (!record || isJobFinished(record.snapshot.status)) {
+    return () => {};
+  }
+
+  record.listeners.add(listener);
+  return () => {
+    record.listeners.delete(listener);
+  };
+};
+
+// Questions already being extracted finish; everything else is skipped
+export const cancelExtractionJob = (id: string): ExtractionJobSnapshot | null => {
+  const record = jobs.get(id);
+  if (!record) return null;
+
+  if (!isJobFinished(record.snapshot.status)) {
+    record.cancelRequested = true;
+    record.queue?.cancel();
+  }
+  return record.snapshot;
+};
@@ -0,0 +1,422 @@
+// lib/extraction-pipeline.ts
+import type * as pdfjsLib from 'pdfjs-dist';
+import { captureFigure, getQuestionFigures } from './figure-utils';
+import { JobQueue, RetryableError } from './job-queue';
+import { takeSourceLabels } from './label-utils';
+import { getQuestionOptions } from './option-utils';
+import { PageRenderer } from './page-renderer';
+import { resolveQuestionPassage } from './passage-utils';
+import { BUILT_IN_PROMPT_PROFILES, DEFAULT_PROMPT_PROFILE_SELECTION, resolvePagePromptProfile } from './prompt-profiles';
+import type { PromptProfile, PromptProfileSelection } from './prompt-profiles';
+import { dpiToScale, scaleBoundingBox } from './pdf-utils';
+import { QUESTION_TYPES, applyQuestionType, hasQuestionContent } from './question-types';
+import { getQuestionSolutions } from './solution-utils';
+import { hasContinuations, stitchBoxes } from './stitch-utils';
+import { collectOptionLabels } from './text-utils';
+import { addUsage, emptyUsage, formatUsage, isBudgetExceeded } from './usage-utils';
+import type { ExtractionProvider } from './extraction-providers';
+import type { BoundingBox, ExtractionProgress, MCQ, Passage, TokenUsage, UsageBudget } from './types';
+
+export const DEFAULT_EXTRACTION_DPI = 150;
+
+export const EXTRACTION_DPI_OPTIONS = [72, 108, 150, 200, 300];
+
+// DPI asked for outside the UI, limited to the range the UI offers so a request
+// can't make the renderer allocate huge (or negative) page canvases
+export const clampExtractionDpi = (dpi: number): number => {
+  const min = EXTRACTION_DPI_OPTIONS[0];
+  const max = EXTRACTION_DPI_OPTIONS[EXTRACTION_DPI_OPTIONS.length - 1];
+  return Math.min(max, Math.max(min, dpi));
+};
+
+export const DEFAULT_EXTRACTION_CONCURRENCY = 2;
+
+export const EXTRACTION_CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+// Concurrency asked for outside the UI, limited to the range the UI offers
+export const clampExtractionConcurrency = (concurrency: number): number => {
+  const min = EXTRACTION_CONCURRENCY_OPTIONS[0];
+  const max = EXTRACTION_CONCURRENCY_OPTIONS[EXTRACTION_CONCURRENCY_OPTIONS.length - 1];
+  return Math.min(max, Math.max(min, Math.floor(concurrency)));
+};
+
+export interface ExtractionPipelineOptions {
+  pdf: pdfjsLib.PDFDocumentProxy;
+  boundingBoxes: BoundingBox[];
+  provider: ExtractionProvider;
+  dpi?: number;
+  // Pass a queue to pause, resume or cancel the run from outside
+  queue?: JobQueue<MCQ>;
+  // Results from an earlier, interrupted run; their question boxes are skipped
+  completed?: MCQ[];
+  // Passages extracted by that earlier run, so they are not read again
+  completedPassages?: Passage[];
+  // Every profile the selection may name; defaults to the built-in ones
+  promptProfiles?: PromptProfile[];
+  // Which profile each page is prompted with; defaults to the default profile everywhere
+  promptProfileSelection?: PromptProfileSelection;
+  // Cancels the remaining questions once the run has spent this much
+  budget?: UsageBudget;
+  onProgress?: (progress: ExtractionProgress) => void;
+  // Called as soon as each question finishes, so results can be persisted incrementally
+  onItemComplete?: (mcq: MCQ) => void;
+  onPassageComplete?: (passage: Passage) => void;
+}
+
+export interface ExtractionRunResult {
+  mcqs: MCQ[];
+  // Passages referenced by the returned questions, in the order they are first used
+  passages: Passage[];
+  // Everything this run spent, including failed and retried requests
+  usage: TokenUsage;
+  budgetReached: boolean;
+}
+
+const extractQuestion = async (
+  provider: ExtractionProvider,
+  canvas: HTMLCanvasElement,
+  questionBox: BoundingBox,
+  optionBoxes: BoundingBox[],
+  profile: PromptProfile
+): Promise<MCQ> => {
+  const questionType = questionBox.questionType ?? 'single';
+
+  try {
+    const extracted = await provider.extractMCQFromCanvas(canvas, questionBox, optionBoxes, profile);
+    const mcqResult = { ...extracted, ...takeSourceLabels(extracted) };
+
+    if (mcqResult.validationStatus === 'failed') {
+      // Keep the MCQ, with one blank option per box, so it can be completed in the editor
+      return applyQuestionType({
+        id: questionBox.id,
+        questionNumber: mcqResult.questionNumber,
+        question: mcqResult.question,
+        options: mcqResult.options.length > 0 ? mcqResult.options : optionBoxes.map(() => ''),
+        optionLabels: mcqResult.options.length > 0 ? mcqResult.optionLabels : undefined,
+        page: questionBox.page,
+        provider: provider.id,
+        extractionPath: mcqResult.source,
+        validationStatus: 'failed',
+        validationError: mcqResult.validationError,
+        confidence: mcqResult.confidence,
+        usage: mcqResult.usage,
+        promptProfile: mcqResult.promptProfile,
+      }, mcqResult, questionType);
+    }
+
+    const mcq = applyQuestionType({
+      id: questionBox.id,
+      questionNumber: mcqResult.questionNumber,
+      question: mcqResult.question,
+      options: mcqResult.options,
+      optionLabels: mcqResult.optionLabels,
+      page: questionBox.page,
+      provider: provider.id,
+      extractionPath: mcqResult.source,
+      validationStatus: mcqResult.validationStatus,
+      confidence: mcqResult.confidence,
+      usage: mcqResult.usage,
+      promptProfile: mcqResult.promptProfile,
+    }, mcqResult, questionType);
+
+    if (!hasQuestionContent(mcq)) {
+      throw new Error('No question text or options were found');
+    }
+
+    return mcq;
+  } catch (error) {
+    // Let the queue back off and retry; falling back would just hit the same limit
+    if (error instanceof RetryableError) throw error;
+    console.error('MCQ extraction failed, extracting regions individually:', error);
+  }
+
+  // Fallback: try individual extractions
+  const questionResult = await provider.extractTextFromCanvas(canvas, questionBox, 'question', profile);
+  let usage = questionResult.usage;
+  let confidence = questionResult.confidence;
+
+  const options: string[] = [];
+  const labels: Array<string | undefined> = [];
+  for (const optionBox of optionBoxes) {
+    try {
+      const optionResult = await provider.extractTextFromCanvas(canvas, optionBox, 'option', profile);
+      if (optionResult.usage) {
+        usage = addUsage(usage ?? emptyUsage(), optionResult.usage);
+      }
+      if (optionResult.text.trim()) {
+        options.push(optionResult.text.trim());
+        labels.push(optionResult.label);
+      }
+      confidence = Math.min(confidence, optionResult.confidence);
+    } catch (optionError) {
+      if (optionError instanceof RetryableError) throw optionError;
+      console.error('Option extraction failed:', optionError);
+    }
+  }
+
+  const labelled = takeSourceLabels({ question: questionResult.text, options, optionLabels: collectOptionLabels(labels) });
+  const mcq = applyQuestionType({
+    id: questionBox.id,
+    ...labelled,
+    options,
+    page: questionBox.page,
+    provider: provider.id,
+    extractionPath: questionResult.source,
+    confidence,
+    usage,
+    promptProfile: questionResult.promptProfile,
+  }, { question: labelled.question, options, hasLatex: questionResult.hasLatex }, questionType);
+
+  if (!hasQuestionContent(mcq)) {
+    throw new Error('No question text or options were found');
+  }
+
+  return mcq;
+};
+
+// Solutions are extras: a failed one leaves the MCQ without an explanation rather than failing it
+const extractExplanation = async (
+  provider: ExtractionProvider,
+  renderer: PageRenderer,
+  solutionBoxes: BoundingBox[],
+  profile: PromptProfile
+): Promise<{ explanation?: string; usage?: TokenUsage }> => {
+  const parts: string[] = [];
+  let usage: TokenUsage | undefined;
+
+  for (const solutionBox of solutionBoxes) {
+    try {
+      const canvas = await renderer.getPageCanvas(solutionBox.page);
+      const result = await provider.extractTextFromCanvas(
+        canvas,
+        scaleBoundingBox(solutionBox, renderer.scale),
+        'solution',
+        profile
+      );
+      if (result.usage) {
+        usage = addUsage(usage ?? emptyUsage(), result.usage);
+      }
+      if (result.text.trim()) {
+        parts.push(result.text.trim());
+      }
+    } catch (error) {
+      if (error instanceof RetryableError) throw error;
+      console.error('Solution extraction failed:', error);
+    }
+  }
+
+  return { explanation: parts.length > 0 ? parts.join('\n\n') : undefined, usage };
+};
+
+// Like solutions, a failed passage doesn't fail its questions; it is kept empty to be typed in
+const extractPassage = async (
+  provider: ExtractionProvider,
+  renderer: PageRenderer,
+  passageBox: BoundingBox,
+  profile: PromptProfile
+): Promise<Passage> => {
+  const passage: Passage = { id: passageBox.id, text: '', page: passageBox.page, provider: provider.id };
+
+  try {
+    const stitched = hasContinuations(passageBox) ? await stitchBoxes(renderer, [passageBox]) : null;
+    const canvas = stitched?.canvas ?? await renderer.getPageCanvas(passageBox.page);
+    const result = await provider.extractTextFromCanvas(
+      canvas,
+      stitched?.boxes[0] ?? scaleBoundingBox(passageBox, renderer.scale),
+      'passage',
+      profile
+    );
+    passage.text = result.text.trim();
+    passage.extractionPath = result.source;
+    passage.confidence = result.confidence;
+    passage.usage = result.usage;
+  } catch (error) {
+    if (error instanceof RetryableError) throw error;
+    console.error('Passage extraction failed:', error);
+  }
+
+  return passage;
+};
+
+export const runExtractionPipeline = async ({
+  pdf,
+  boundingBoxes,
+  provider,
+  dpi = DEFAULT_EXTRACTION_DPI,
+  queue = new JobQueue<MCQ>(),
+  completed = [],
+  completedPassages = [],
+  promptProfiles = BUILT_IN_PROMPT_PROFILES,
+  promptProfileSelection = DEFAULT_PROMPT_PROFILE_SELECTION,
+  budget,
+  onProgress,
+  onItemComplete,
+  onPassageComplete,
+}: ExtractionPipelineOptions): Promise<ExtractionRunResult> => {
+  const renderer = new PageRenderer(pdf, dpiToScale(dpi));
+  // Auto-detected suggestions are only extracted once the user accepts them
+  const acceptedBoxes = boundingBoxes.filter(bbox => !bbox.suggested);
+  const questionBoxes = acceptedBoxes.filter(bbox => bbox.type === 'question');
+  const completedById = new Map(completed.map(mcq => [mcq.id, mcq] as [string, MCQ]));
+  const passagesById = new Map(completedPassages.map(passage => [passage.id, passage] as [string, Passage]));
+  const pendingPassages = new Map<string, Promise<Passage>>();
+  const getProfile = (page: number) => resolvePagePromptProfile(promptProfiles, promptProfileSelection, page);
+
+  // Questions sharing a passage run concurrently, so they wait on one extraction
+  const getPassage = (passageBox: BoundingBox): Promise<Passage> => {
+    const done = passagesById.get(passageBox.id);
+    if (done) return Promise.resolve(done);
+
+    let pending = pendingPassages.get(passageBox.id);
+    if (!pending) {
+      pending = extractPassage(provider, renderer, passageBox, getProfile(passageBox.page)).then(
+        passage => {
+          passagesById.set(passage.id, passage);
+          onPassageComplete?.(passage);
+          return passage;
+        },
+        error => {
+          // Forget the failed attempt so the question's retry extracts the passage again
+          pendingPassages.delete(passageBox.id);
+          throw error;
+        }
+      );
+      pendingPassages.set(passageBox.id, pending);
+    }
+    return pending;
+  };
+
+  questionBoxes.forEach((questionBox, i) => {
+    if (completedById.has(questionBox.id)) return;
+
+    queue.add(questionBox.id, `Question ${i + 1} (page ${questionBox.page})`, async () => {
+      // Only the question's own options; types like numeric entry have none
+      const usesOptionBoxes = QUESTION_TYPES[questionBox.questionType ?? 'single'].usesOptionBoxes;
+      const questionOptionBoxes = usesOptionBoxes ? getQuestionOptions(questionBox, acceptedBoxes) : [];
+
+      // Crops come from the render of the page the box was drawn on, unless part of
+      // the question continues elsewhere; then every piece is stitched into one image
+      const needsStitching = [questionBox, ...questionOptionBoxes].some(hasContinuations);
+      const stitched = needsStitching ? await stitchBoxes(renderer, [questionBox, ...questionOptionBoxes]) : null;
+      const canvas = stitched?.canvas ?? await renderer.getPageCanvas(questionBox.page);
+
+      const mcq = await extractQuestion(
+        provider,
+        canvas,
+        stitched?.boxes[0] ?? scaleBoundingBox(questionBox, renderer.scale),
+        stitched?.boxes.slice(1) ?? questionOptionBoxes.map(bbox => scaleBoundingBox(bbox, renderer.scale)),
+        getProfile(questionBox.page)
+      );
+
+      // Figures are cropped as images, never sent for text extraction
+      const figureBoxes = getQuestionFigures(questionBox, questionOptionBoxes, acceptedBoxes);
+      if (figureBoxes.length > 0) {
+        mcq.figures = [];
+        for (const { bbox, optionIndex } of figureBoxes) {
+          // A linked figure can sit on a different page from its question
+          const figureCanvas = await renderer.getPageCanvas(bbox.page);
+          mcq.figures.push(captureFigure(figureCanvas, scaleBoundingBox(bbox, renderer.scale), optionIndex));
+        }
+      }
+
+      const solutionBoxes = getQuestionSolutions(questionBox, acceptedBoxes);
+      if (solutionBoxes.length > 0) {
+        // Solutions printed in a separate section still follow their question's subject
+        const { explanation, usage } = await extractExplanation(provider, renderer, solutionBoxes, getProfile(questionBox.page));
+        mcq.explanation = explanation;
+        if (usage) {
+          mcq.usage = addUsage(mcq.usage ?? emptyUsage(), usage);
+        }
+      }
+
+      const passageBox = resolveQuestionPassage(questionBox, acceptedBoxes);
+      if (passageBox) {
+        await getPassage(passageBox);
+        mcq.passageId = passageBox.id;
+      }
+
+      onItemComplete?.(mcq);
+      return mcq;
+    });
+  });
+
+  // Questions finished by an earlier run still count towards overall progress
+  const resumedCount = questionBoxes.filter(questionBox => completedById.has(questionBox.id)).length;
+
+  let items = queue.getItems();
+  let state = queue.getState();
+  let usage = emptyUsage();
+  let budgetReached = false;
+
+  const reportProgress = () => {
+    const finished = resumedCount + items.filter(item =>
+      item.status === 'succeeded' || item.status === 'failed' || item.status === 'cancelled'
+    ).length;
+    const total = resumedCount + items.length;
+    const failed = items.filter(item => item.status === 'failed').length;
+    const done = state === 'complete' || state === 'cancelled';
+
+    const errors: string[] = [];
+    if (budgetReached) {
+      errors.push(`Run budget reached after ${formatUsage(usage)}; the remaining questions were cancelled`);
+    }
+    if (done && failed > 0) {
+      errors.push(`${failed} question${failed === 1 ? '' : 's'} could not be extracted`);
+    }
+
+    onProgress?.({
+      current: finished,
+      total,
+      stage: done ? 'complete' : 'extracting',
+      currentItem: state === 'paused'
+        ? 'Paused'
+        : state === 'cancelling'
+          ? 'Cancelling, waiting for requests in flight...'
+          : `${finished} of ${total} questions processed`,
+      error: errors.length > 0 ? errors.join('. ') : undefined,
+      items,
+      queueState: state,
+      usage,
+    });
+  };
+
+  const unsubscribeQueue = queue.subscribe((nextItems, nextState) => {
+    items = nextItems;
+    state = nextState;
+    reportProgress();
+  });
+
+  const unsubscribeUsage = provider.subscribeUsage?.(requestUsage => {
+    usage = addUsage(usage, requestUsage);
+    if (!budgetReached && isBudgetExceeded(usage, budget)) {
+      budgetReached = true;
+      queue.cancel();
+    }
+    reportProgress();
+  });
+
+  try {
+    const results = await queue.run();
+    results
+      .filter(job => job.status === 'succeeded' && job.result)
+      .forEach(job => completedById.set(job.id, job.result as MCQ));
+
+    // Earlier and new results together, in the order the questions were drawn
+    const mcqs = questionBoxes
+      .filter(questionBox => completedById.has(questionBox.id))
+      .map(questionBox => completedById.get(questionBox.id) as MCQ);
+
+    const passageIds = mcqs
+      .map(mcq => mcq.passageId)
+      .filter((id, index, ids): id is string => !!id && ids.indexOf(id) === index);
+    const passages = passageIds
+      .filter(id => passagesById.has(id))
+      .map(id => passagesById.get(id) as Passage);
+
+    return { mcqs, passages, usage, budgetReached };
+  } finally {
+    unsubscribeQueue();
+    unsubscribeUsage?.();
+    await renderer.clear();
+  }
+};
@@ -0,0 +1,100 @@
+// lib/extraction-providers.ts
+import type * as pdfjsLib from 'pdfjs-dist';
+import { GeminiExtractor } from './gemini-utils';
+import { HybridExtractor } from './hybrid-utils';
+import { TesseractExtractor } from './tesseract-utils';
+import { TextLayerExtractor } from './text-layer-utils';
+import type { PromptProfile } from './prompt-profiles';
+import type {
+  BoundingBox,
+  ExtractionProviderId,
+  ExtractionType,
+  MCQExtractionResult,
+  TextExtractionResult,
+  TokenUsage
+} from './types';
+
+// The prompt profile is only read by providers that prompt a model
+export interface ExtractionProvider {
+  readonly id: ExtractionProviderId;
+  isInitialized(): boolean;
+  extractTextFromCanvas(
+    canvas: HTMLCanvasElement,
+    bbox: BoundingBox,
+    extractionType?: ExtractionType,
+    profile?: PromptProfile
+  ): Promise<TextExtractionResult>;
+  extractMCQFromCanvas(
+    canvas: HTMLCanvasElement,
+    questionBox: BoundingBox,
+    optionBoxes: BoundingBox[],
+    profile?: PromptProfile
+  ): Promise<MCQExtractionResult>;
+  // Release workers or other resources held between extractions
+  dispose?(): Promise<void>;
+  // Only implemented by providers that call a billed API
+  subscribeUsage?(listener: (usage: TokenUsage) => void): () => void;
+}
+
+export interface ExtractionProviderInfo {
+  id: ExtractionProviderId;
+  name: string;
+  description: string;
+  requiresApiKey: boolean;
+}
+
+export const EXTRACTION_PROVIDERS: Record<ExtractionProviderId, ExtractionProviderInfo> = {
+  gemini: {
+    id: 'gemini',
+    name: 'Gemini AI',
+    description: 'Vision model with the best accuracy for math and complex layouts',
+    requiresApiKey: true
+  },
+  tesseract: {
+    id: 'tesseract',
+    name: 'Tesseract OCR',
+    description: 'Offline OCR that runs entirely in your browser',
+    requiresApiKey: false
+  },
+  'text-layer': {
+    id: 'text-layer',
+    name: 'PDF Text Layer',
+    description: 'Reads embedded text directly; instant for born-digital PDFs',
+    requiresApiKey: false
+  },
+  hybrid: {
+    id: 'hybrid',
+    name: 'Hybrid (Text Layer + Vision)',
+    description: 'Uses the text layer first and only sends empty, garbled or math-heavy regions to Gemini (Tesseract offline)',
+    requiresApiKey: false
+  }
+};
+
+export interface ExtractionProviderOptions {
+  geminiExtractor?: GeminiExtractor | null;
+  pdf?: pdfjsLib.PDFDocumentProxy | null;
+}
+
+export const createExtractionProvider = (
+  id: ExtractionProviderId,
+  options: ExtractionProviderOptions = {}
+): ExtractionProvider => {
+  switch (id) {
+    case 'gemini':
+      if (!options.geminiExtractor) {
+        throw new Error('Gemini not initialized. Please provide a valid API key.');
+      }
+      return options.geminiExtractor;
+    case 'tesseract':
+      return new TesseractExtractor();
+    case 'text-layer':
+      return new TextLayerExtractor(options.pdf ?? null);
+    case 'hybrid':
+      return new HybridExtractor(
+        new TextLayerExtractor(options.pdf ?? null),
+        options.geminiExtractor ?? new TesseractExtractor()
+      );
+    default:
+      throw new Error(`Unknown extraction provider: ${id}`);
+  }
+};
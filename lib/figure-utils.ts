@@ -0,0 +1,91 @@
+// lib/figure-utils.ts
+import { createCanvas, cropCanvas } from './canvas-utils';
+import { DEFAULT_RENDER_SCALE, scaleBoundingBox } from './pdf-utils';
+import type { BoundingBox, FigureAsset } from './types';
+
+// Wider crops are scaled down so a handful of diagrams don't fill localStorage
+export const FIGURE_MAX_WIDTH = 800;
+
+export const overlapArea = (a: BoundingBox, b: BoundingBox): number => {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  return width > 0 && height > 0 ? width * height : 0;
+};
+
+// Picks the box a figure most likely illustrates: whatever it overlaps most,
+// otherwise the closest question above it, otherwise the closest question on the page
+export const findFigureParent = (
+  figure: BoundingBox,
+  boxes: BoundingBox[]
+): BoundingBox | undefined => {
+  const target = scaleBoundingBox(figure, DEFAULT_RENDER_SCALE);
+  const candidates = boxes
+    .filter(bbox => (bbox.type === 'question' || bbox.type === 'option') && !bbox.suggested && bbox.page === figure.page)
+    .map(bbox => ({ bbox, scaled: scaleBoundingBox(bbox, DEFAULT_RENDER_SCALE) }));
+
+  const overlapping = candidates
+    .map(candidate => ({ ...candidate, overlap: overlapArea(candidate.scaled, target) }))
+    .filter(candidate => candidate.overlap > 0)
+    .sort((a, b) => b.overlap - a.overlap)[0];
+  if (overlapping) return overlapping.bbox;
+
+  const questions = candidates.filter(candidate => candidate.bbox.type === 'question');
+  const above = questions
+    .filter(candidate => candidate.scaled.y <= target.y)
+    .sort((a, b) => b.scaled.y - a.scaled.y)[0];
+  if (above) return above.bbox;
+
+  return questions
+    .sort((a, b) => Math.abs(a.scaled.y - target.y) - Math.abs(b.scaled.y - target.y))[0]?.bbox;
+};
+
+// Figures keep an explicit link when it still points at a box; stale or missing
+// links fall back to the nearest question or option
+export const resolveFigureParentId = (figure: BoundingBox, boxes: BoundingBox[]): string | undefined => {
+  if (figure.parentId && boxes.some(bbox => bbox.id === figure.parentId && (bbox.type === 'question' || bbox.type === 'option'))) {
+    return figure.parentId;
+  }
+  return findFigureParent(figure, boxes)?.id;
+};
+
+export const getQuestionFigures = (
+  questionBox: BoundingBox,
+  optionBoxes: BoundingBox[],
+  boxes: BoundingBox[]
+): Array<{ bbox: BoundingBox; optionIndex?: number }> => {
+  return boxes
+    .filter(bbox => bbox.type === 'figure' && !bbox.suggested)
+    .map(bbox => {
+      const parentId = resolveFigureParentId(bbox, boxes);
+      if (parentId === questionBox.id) return { bbox };
+
+      const optionIndex = optionBoxes.findIndex(optionBox => optionBox.id === parentId);
+      return optionIndex >= 0 ? { bbox, optionIndex } : null;
+    })
+    .filter((figure): figure is { bbox: BoundingBox; optionIndex?: number } => figure !== null);
+};
+
+// `bbox` must already be in the page canvas's scale
+export const captureFigure = (
+  pageCanvas: HTMLCanvasElement,
+  bbox: BoundingBox,
+  optionIndex?: number
+): FigureAsset => {
+  let crop = cropCanvas(pageCanvas, bbox);
+
+  if (crop.width > FIGURE_MAX_WIDTH) {
+    const ratio = FIGURE_MAX_WIDTH / crop.width;
+    const resized = createCanvas(FIGURE_MAX_WIDTH, crop.height * ratio);
+    resized.getContext('2d')!.drawImage(crop, 0, 0, resized.width, resized.height);
+    crop = resized;
+  }
+
+  return {
+    id: bbox.id,
+    page: bbox.page,
+    dataUrl: crop.toDataURL('image/png'),
+    width: crop.width,
+    height: crop.height,
+    optionIndex,
+  };
+};
@@ -0,0 +1,38 @@
+// lib/gemini-proxy.ts
+import type { GeminiSettings } from './gemini-utils';
+
+// Served by pages/api/gemini-proxy, which adds the server's key before forwarding to Google
+export const GEMINI_PROXY_BASE_URL = '/api/gemini-proxy';
+
+// The SDK refuses to build a model without a key, so proxy mode passes this stand-in;
+// the proxy drops it and never forwards anything the browser sends as a key
+export const GEMINI_PROXY_API_KEY = 'server-managed';
+
+export interface GeminiProxyStatus {
+  enabled: boolean;
+  // Requests each client may make per window before getting a 429
+  rateLimit?: { limit: number; windowMs: number };
+  // Models the proxy forwards to; the first is the server's default
+  models?: string[];
+}
+
+export const isProxyApiKey = (apiKey: string): boolean => apiKey === GEMINI_PROXY_API_KEY;
+
+// Generation settings still apply; the endpoint is fixed, and a model the proxy
+// doesn't forward to is swapped for the server's default
+export const withProxyBaseUrl = (settings: GeminiSettings, status: GeminiProxyStatus): GeminiSettings => ({
+  ...settings,
+  model: !status.models?.length || status.models.indexOf(settings.model) !== -1 ? settings.model : status.models[0],
+  baseUrl: GEMINI_PROXY_BASE_URL,
+});
+
+export const fetchGeminiProxyStatus = async (): Promise<GeminiProxyStatus> => {
+  try {
+    const response = await fetch(`${GEMINI_PROXY_BASE_URL}/status`);
+    if (!response.ok) return { enabled: false };
+    return await response.json();
+  } catch {
+    // Static exports and older deployments have no API routes at all
+    return { enabled: false };
+  }
+};
@@ -1,20 +1,213 @@
 // lib/gemini-utils.ts
 import { GoogleGenerativeAI } from '@google/generative-ai';
-import type { BoundingBox, ExtractionResult } from './types';
+import { canvasToBase64PNG, createCombinedCanvas, cropCanvas } from './canvas-utils';
+import { ExtractionCache } from './extraction-cache';
+import { RateLimitError, RetryableError } from './job-queue';
+import { addUsage, emptyUsage, estimateCost } from './usage-utils';
+import { DEFAULT_PROMPT_PROFILE } from './prompt-profiles';
+import type { PromptProfile } from './prompt-profiles';
+import { QUESTION_TYPES } from './question-types';
+import {
+  ASSERTION_REASON_RESPONSE_SCHEMA,
+  MATCH_RESPONSE_SCHEMA,
+  MCQ_RESPONSE_SCHEMA,
+  QUESTION_ONLY_RESPONSE_SCHEMA,
+  REGION_RESPONSE_SCHEMA,
+  parseAndValidate
+} from './response-schema';
+import type { RegionResponse, Schema, TypedQuestionResponse } from './response-schema';
+import type { ExtractionProvider } from './extraction-providers';
+import type {
+  BoundingBox,
+  ExtractionType,
+  MCQExtractionResult,
+  QuestionType,
+  TextExtractionResult,
+  TokenUsage,
+  ValidationStatus
+} from './types';
+
+export type GeminiExtractionResult = TextExtractionResult;
+
+export interface GeminiSettings {
+  model: string;
+  // Left undefined to use the model's own default
+  temperature?: number;
+  maxOutputTokens?: number;
+  // Points the SDK at a proxy or local stand-in server instead of Google
+  baseUrl?: string;
+}
+
+export interface GeminiExtractorOptions {
+  settings?: GeminiSettings;
+  // How many times to ask the model to fix a response that fails schema validation
+  maxRepairAttempts?: number;
+  // Skip cached responses and always call the API; fresh responses still refresh the cache
+  bypassCache?: boolean;
+}
+
+export const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-1.5-flash';
+
+export const DEFAULT_GEMINI_SETTINGS: GeminiSettings = {
+  model: DEFAULT_GEMINI_MODEL,
+};
+
+const createModel = (apiKey: string, settings: GeminiSettings) => {
+  const genAI = new GoogleGenerativeAI(apiKey);
+  return genAI.getGenerativeModel(
+    {
+      model: settings.model,
+      generationConfig: {
+        temperature: settings.temperature,
+        maxOutputTokens: settings.maxOutputTokens,
+      },
+    },
+    settings.baseUrl ? { baseUrl: settings.baseUrl } : undefined
+  );
+};
+
+const MCQ_RESPONSE_FORMAT = `{
+  "questionNumber": 12,
+  "question": "extracted question text",
+  "options": ["option A text", "option B text", "option C text", "option D text"],
+  "optionLabels": ["A", "B", "C", "D"],
+  "hasLatex": true/false,
+  "confidence": 0-100
+}`;
+
+const QUESTION_ONLY_RESPONSE_FORMAT = `{
+  "questionNumber": 12,
+  "question": "extracted question or statement text",
+  "hasLatex": true/false,
+  "confidence": 0-100
+}`;
 
-export interface GeminiExtractionResult {
+const MATCH_RESPONSE_FORMAT = `{
+  "questionNumber": 12,
+  "question": "instruction text above the columns",
+  "left": ["first item of column I", "second item of column I"],
+  "right": ["first item of column II", "second item of column II"],
+  "hasLatex": true/false,
+  "confidence": 0-100
+}`;
+
+const ASSERTION_REASON_RESPONSE_FORMAT = `{
+  "questionNumber": 12,
+  "question": "instruction text before the assertion, or an empty string",
+  "assertion": "assertion text",
+  "reason": "reason text",
+  "options": ["option A text", "option B text", "option C text", "option D text"],
+  "optionLabels": ["A", "B", "C", "D"],
+  "hasLatex": true/false,
+  "confidence": 0-100
+}`;
+
+// The numbered requirements and response shape for each question type
+const MCQ_PROMPTS: Record<QuestionType, { requirements: string; format: string; schema: Schema }> = {
+  single: {
+    requirements: `1. QUESTION: Extract the main question text exactly as written
+2. OPTIONS: Extract all visible answer options (A, B, C, D, E, etc.)`,
+    format: MCQ_RESPONSE_FORMAT,
+    schema: MCQ_RESPONSE_SCHEMA,
+  },
+  multiple: {
+    requirements: `1. QUESTION: Extract the main question text exactly as written, including any "select all that apply" instruction
+2. OPTIONS: Extract all visible answer options (A, B, C, D, E, etc.); more than one may be correct`,
+    format: MCQ_RESPONSE_FORMAT,
+    schema: MCQ_RESPONSE_SCHEMA,
+  },
+  'true-false': {
+    requirements: `1. QUESTION: Extract the statement to be judged true or false exactly as written
+2. OPTIONS: Do not include the words "True" and "False" themselves`,
+    format: QUESTION_ONLY_RESPONSE_FORMAT,
+    schema: QUESTION_ONLY_RESPONSE_SCHEMA,
+  },
+  numeric: {
+    requirements: `1. QUESTION: Extract the complete question text exactly as written, including the unit the answer is expected in
+2. ANSWER BOX: Leave out any blank answer box or line`,
+    format: QUESTION_ONLY_RESPONSE_FORMAT,
+    schema: QUESTION_ONLY_RESPONSE_SCHEMA,
+  },
+  match: {
+    requirements: `1. QUESTION: Extract the instruction above the columns, without the column contents
+2. COLUMNS: Extract every item of the left column (Column I / List-I) and the right column (Column II / List-II) in printed order, without their labels`,
+    format: MATCH_RESPONSE_FORMAT,
+    schema: MATCH_RESPONSE_SCHEMA,
+  },
+  'assertion-reason': {
+    requirements: `1. STATEMENTS: Extract the assertion and the reason without their "Assertion (A):" and "Reason (R):" labels
+2. OPTIONS: Extract all visible answer options (A, B, C, D, etc.), or an empty list if none are printed`,
+    format: ASSERTION_REASON_RESPONSE_FORMAT,
+    schema: ASSERTION_REASON_RESPONSE_SCHEMA,
+  },
+};
+
+const REGION_RESPONSE_FORMAT = `{
+  "regions": [
+    { "type": "question", "box_2d": [ymin, xmin, ymax, xmax] },
+    { "type": "option", "box_2d": [ymin, xmin, ymax, xmax] }
+  ]
+}`;
+
+interface GeneratedText {
   text: string;
-  confidence: number;
-  hasLatex: boolean;
-  isQuestion: boolean;
-  options?: string[];
+  usage: TokenUsage;
+  // Set for fresh responses; callers cache them once they know they are usable
+  cacheKey: string | null;
 }
 
-export class GeminiExtractor {
-  private genAI: GoogleGenerativeAI | null = null;
-  private model: any = null;
+interface ValidatedResponse<T> {
+  data: T | null;
+  status: ValidationStatus;
+  error?: string;
+  // Summed over every repair attempt
+  usage: TokenUsage;
+}
+
+// Gemini reports how long to back off as a RetryInfo detail, e.g. { retryDelay: "34s" }
+const parseRetryDelay = (errorDetails: unknown): number | undefined => {
+  if (!Array.isArray(errorDetails)) return undefined;
+
+  for (const detail of errorDetails) {
+    const match = /^(\d+(?:\.\d+)?)s$/.exec(detail?.retryDelay ?? '');
+    if (match) {
+      return parseFloat(match[1]) * 1000;
+    }
+  }
+  return undefined;
+};
+
+// Rate limits and server errors become retryable so the job queue can back off
+const toQueueError = (error: unknown): unknown => {
+  const { status, errorDetails, message } = error as {
+    status?: number;
+    errorDetails?: unknown;
+    message: string;
+  };
+
+  if (status === 429) {
+    return new RateLimitError(message, parseRetryDelay(errorDetails));
+  }
+  if (status !== undefined && status >= 500) {
+    return new RetryableError(message);
+  }
+  return error;
+};
 
-  constructor(apiKey?: string) {
+export class GeminiExtractor implements ExtractionProvider {
+  readonly id = 'gemini' as const;
+  private model: any = null;
+  private settings: GeminiSettings;
+  private maxRepairAttempts: number;
+  private bypassCache: boolean;
+  private usageListeners: Array<(usage: TokenUsage) => void> = [];
+
+  constructor(apiKey?: string, options: GeminiExtractorOptions = {}) {
+    this.settings = options.settings ?? DEFAULT_GEMINI_SETTINGS;
+    this.maxRepairAttempts = options.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS;
+    this.bypassCache = options.bypassCache ?? false;
     if (apiKey) {
       this.initialize(apiKey);
     }
@@ -22,8 +215,7 @@ export class GeminiExtractor {
 
   initialize(apiKey: string): void {
     try {
-      this.genAI = new GoogleGenerativeAI(apiKey);
-      this.model = this.genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
+      this.model = createModel(apiKey, this.settings);
     } catch (error) {
       console.error('Failed to initialize Gemini:', error);
       throw new Error('Invalid API key or initialization failed');
@@ -34,10 +226,24 @@ export class GeminiExtractor {
     return this.model !== null;
   }
 
+  setBypassCache(bypass: boolean): void {
+    this.bypassCache = bypass;
+  }
+
+  // Reports every request as it completes, so callers can total usage even
+  // for requests whose extraction later fails
+  subscribeUsage(listener: (usage: TokenUsage) => void): () => void {
+    this.usageListeners.push(listener);
+    return () => {
+      this.usageListeners = this.usageListeners.filter(l => l !== listener);
+    };
+  }
+
   async extractTextFromCanvas(
     canvas: HTMLCanvasElement,
     bbox: BoundingBox,
-    extractionType: 'question' | 'option' = 'question'
+    extractionType: ExtractionType = 'question',
+    profile: PromptProfile = DEFAULT_PROMPT_PROFILE
   ): Promise<GeminiExtractionResult> {
     if (!this.model) {
       throw new Error('Gemini not initialized. Please provide a valid API key.');
@@ -45,33 +251,23 @@ export class GeminiExtractor {
 
     try {
       // Crop the canvas to the bounding box
-      const croppedCanvas = this.cropCanvas(canvas, bbox);
+      const croppedCanvas = cropCanvas(canvas, bbox);
       
       // Convert canvas to base64 image
-      const imageData = croppedCanvas.toDataURL('image/png');
-      const base64Data = imageData.split(',')[1];
+      const base64Data = canvasToBase64PNG(croppedCanvas);
 
       // Create the prompt based on extraction type
-      const prompt = this.createExtractionPrompt(extractionType);
+      const prompt = this.createExtractionPrompt(extractionType, profile);
 
       // Send to Gemini
-      const result = await this.model.generateContent([
-        prompt,
-        {
-          inlineData: {
-            data: base64Data,
-            mimeType: 'image/png'
-          }
-        }
-      ]);
-
-      const response = await result.response;
-      const text = response.text();
+      const { text, usage, cacheKey } = await this.generateFromImage(prompt, base64Data);
+      this.cacheResponse(cacheKey, text);
 
       // Parse the response
-      return this.parseGeminiResponse(text, extractionType);
+      return { ...this.parseGeminiResponse(text, extractionType), promptProfile: profile.id, usage };
     } catch (error) {
       console.error('Gemini extraction failed:', error);
+      if (error instanceof RetryableError) throw error;
       throw new Error(`Gemini API error: ${(error as Error).message}`);
     }
   }
@@ -79,133 +275,191 @@ export class GeminiExtractor {
   async extractMCQFromCanvas(
     canvas: HTMLCanvasElement,
     questionBox: BoundingBox,
-    optionBoxes: BoundingBox[]
-  ): Promise<{ question: string; options: string[]; hasLatex: boolean }> {
+    optionBoxes: BoundingBox[],
+    profile: PromptProfile = DEFAULT_PROMPT_PROFILE
+  ): Promise<MCQExtractionResult> {
     if (!this.model) {
       throw new Error('Gemini not initialized. Please provide a valid API key.');
     }
 
     try {
       // Create a combined image with question and options
-      const combinedCanvas = this.createCombinedCanvas(canvas, questionBox, optionBoxes);
-      const imageData = combinedCanvas.toDataURL('image/png');
-      const base64Data = imageData.split(',')[1];
+      const combinedCanvas = createCombinedCanvas(canvas, questionBox, optionBoxes);
+      const base64Data = canvasToBase64PNG(combinedCanvas);
 
-      const prompt = `
-You are an expert at extracting Multiple Choice Questions from academic documents. 
+      const questionType = questionBox.questionType ?? 'single';
+      const { requirements, format, schema } = MCQ_PROMPTS[questionType];
+      const prompt = this.createMCQPrompt(questionType, requirements, format, profile);
 
-Analyze this image and extract the complete MCQ with the following requirements:
+      const { data, status, error, usage } = await this.generateValidated<TypedQuestionResponse>(
+        prompt,
+        format,
+        schema,
+        base64Data
+      );
 
-1. QUESTION: Extract the main question text exactly as written
-2. OPTIONS: Extract all visible answer options (A, B, C, D, E, etc.)
-3. LATEX: Preserve any mathematical notation using LaTeX format with $ symbols
-4. FORMATTING: Clean up OCR artifacts but maintain mathematical symbols
+      // Failed responses are still returned, flagged, so the MCQ can be fixed by hand
+      return {
+        questionNumber: data?.questionNumber,
+        question: data?.question ?? '',
+        options: data?.options ?? [],
+        optionLabels: data?.optionLabels,
+        matchLeft: data?.left,
+        matchRight: data?.right,
+        assertion: data?.assertion,
+        reason: data?.reason,
+        hasLatex: data?.hasLatex ?? false,
+        confidence: data?.confidence,
+        source: 'vision',
+        validationStatus: status,
+        validationError: error,
+        promptProfile: profile.id,
+        usage
+      };
+    } catch (error) {
+      console.error('Gemini MCQ extraction failed:', error);
+      if (error instanceof RetryableError) throw error;
+      throw new Error(`Failed to extract MCQ: ${(error as Error).message}`);
+    }
+  }
+
+  async detectMCQRegions(
+    pageCanvas: HTMLCanvasElement,
+    pageNumber: number,
+    scale: number
+  ): Promise<BoundingBox[]> {
+    if (!this.model) {
+      throw new Error('Gemini not initialized. Please provide a valid API key.');
+    }
+
+    try {
+      const base64Data = canvasToBase64PNG(pageCanvas);
+
+      const prompt = `
+You are an expert at analysing the layout of exam papers.
+
+Find every multiple choice question on this page. For each question, return one region
+covering the question stem and one region for each answer option.
 
 Please respond in this exact JSON format:
-{
-  "question": "extracted question text",
-  "options": ["option A text", "option B text", "option C text", "option D text"],
-  "hasLatex": true/false,
-  "confidence": 0-100
-}
+${REGION_RESPONSE_FORMAT}
 
 Important:
-- Wrap mathematical expressions in $ symbols (e.g., $x^2 + 3x + 2$)
-- Include Greek letters as LaTeX (e.g., $\\alpha$, $\\beta$)
-- Preserve fractions as $\\frac{numerator}{denominator}$
-- Keep subscripts as $x_1$ and superscripts as $x^2$
-- Remove any OCR artifacts like extra spaces or misrecognized characters
-- If text is unclear, indicate lower confidence but still provide best attempt
+- Coordinates are integers normalised to 0-1000 relative to the full page image
+- List regions in reading order, each question followed by its options
+- Do not include headers, footers, instructions or answer keys
+- Return an empty "regions" array if the page has no questions
 `;
 
-      const result = await this.model.generateContent([
+      const { data, error } = await this.generateValidated<RegionResponse>(
         prompt,
-        {
-          inlineData: {
-            data: base64Data,
-            mimeType: 'image/png'
-          }
-        }
-      ]);
+        REGION_RESPONSE_FORMAT,
+        REGION_RESPONSE_SCHEMA,
+        base64Data
+      );
 
-      const response = await result.response;
-      const text = response.text();
+      if (!data) {
+        throw new Error(`Invalid region response: ${error}`);
+      }
 
-      // Parse JSON response
-      const parsed = this.parseJSONResponse(text);
-      
-      return {
-        question: parsed.question || '',
-        options: parsed.options || [],
-        hasLatex: parsed.hasLatex || false
-      };
+      return data.regions
+        .map((region, index) => {
+          const [ymin, xmin, ymax, xmax] = region.box_2d;
+
+          return {
+            id: `bbox-${Date.now()}-${index}-${Math.random().toString(36).substr(2, 5)}`,
+            x: (xmin / 1000) * pageCanvas.width,
+            y: (ymin / 1000) * pageCanvas.height,
+            width: ((xmax - xmin) / 1000) * pageCanvas.width,
+            height: ((ymax - ymin) / 1000) * pageCanvas.height,
+            type: region.type,
+            page: pageNumber,
+            scale,
+            suggested: true,
+          };
+        })
+        .filter(bbox => bbox.width > 10 && bbox.height > 10);
     } catch (error) {
-      console.error('Gemini MCQ extraction failed:', error);
-      throw new Error(`Failed to extract MCQ: ${(error as Error).message}`);
+      console.error('Gemini region detection failed:', error);
+      if (error instanceof RetryableError) throw error;
+      throw new Error(`Failed to detect regions: ${(error as Error).message}`);
     }
   }
 
-  private cropCanvas(canvas: HTMLCanvasElement, bbox: BoundingBox): HTMLCanvasElement {
-    const croppedCanvas = document.createElement('canvas');
-    const ctx = croppedCanvas.getContext('2d')!;
-    
-    croppedCanvas.width = bbox.width;
-    croppedCanvas.height = bbox.height;
-    
-    ctx.drawImage(
-      canvas,
-      bbox.x, bbox.y, bbox.width, bbox.height,
-      0, 0, bbox.width, bbox.height
-    );
-    
-    return croppedCanvas;
-  }
+  private createMCQPrompt(
+    questionType: QuestionType,
+    requirements: string,
+    format: string,
+    profile: PromptProfile
+  ): string {
+    const subject = questionType === 'single' ? 'Multiple Choice Questions' : `${QUESTION_TYPES[questionType].name} questions`;
+    const noun = questionType === 'single' ? 'MCQ' : 'question';
 
-  private createCombinedCanvas(
-    canvas: HTMLCanvasElement,
-    questionBox: BoundingBox,
-    optionBoxes: BoundingBox[]
-  ): HTMLCanvasElement {
-    // Calculate combined dimensions
-    const allBoxes = [questionBox, ...optionBoxes];
-    const minX = Math.min(...allBoxes.map(b => b.x));
-    const minY = Math.min(...allBoxes.map(b => b.y));
-    const maxX = Math.max(...allBoxes.map(b => b.x + b.width));
-    const maxY = Math.max(...allBoxes.map(b => b.y + b.height));
-    
-    const combinedCanvas = document.createElement('canvas');
-    const ctx = combinedCanvas.getContext('2d')!;
-    
-    combinedCanvas.width = maxX - minX;
-    combinedCanvas.height = maxY - minY;
-    
-    // Fill with white background
-    ctx.fillStyle = 'white';
-    ctx.fillRect(0, 0, combinedCanvas.width, combinedCanvas.height);
-    
-    // Draw the combined area
-    ctx.drawImage(
-      canvas,
-      minX, minY, combinedCanvas.width, combinedCanvas.height,
-      0, 0, combinedCanvas.width, combinedCanvas.height
-    );
-    
-    return combinedCanvas;
+    return `
+You are an expert at extracting ${subject} from academic documents. 
+
+Analyze this image and extract the complete ${noun} with the following requirements:
+
+${requirements}
+3. NOTATION: Follow the notation rules below
+4. FORMATTING: Clean up OCR artifacts but keep every symbol
+
+Please respond in this exact JSON format:
+${format}
+
+Notation:
+${profile.instructions}
+
+Important:
+- Remove any OCR artifacts like extra spaces or misrecognized characters
+- If text is unclear, indicate lower confidence but still provide best attempt
+- Put the number printed before the question in "questionNumber" (null if there is none) and leave it out of the question text
+- Leave option labels out of the option text; list them in "optionLabels" as printed, without brackets or dots (e.g. "B", "ii" or "3")
+`;
   }
 
-  private createExtractionPrompt(type: 'question' | 'option'): string {
+  private createExtractionPrompt(type: ExtractionType, profile: PromptProfile): string {
+    const notation = `Notation:
+${profile.instructions}`;
+
     if (type === 'question') {
       return `
-Extract the question text from this image. The text may contain mathematical equations.
+Extract the question text from this image.
 
 Requirements:
 - Extract the complete question text exactly as written
-- Preserve mathematical notation using LaTeX format with $ symbols
 - Clean up any OCR artifacts
-- Wrap mathematical expressions in $ symbols (e.g., $x^2 + 3x + 2$)
-- Convert mathematical symbols to LaTeX equivalents
+
+${notation}
 
 Respond with only the cleaned question text.
+`;
+    } else if (type === 'solution') {
+      return `
+Extract the worked solution or explanation from this image. It may span several lines of working.
+
+Requirements:
+- Extract the complete solution exactly as written, without any "Solution:" or "Explanation:" heading
+- Keep each step of the working on its own line
+- Clean up any OCR artifacts
+
+${notation}
+
+Respond with only the cleaned solution text.
+`;
+    } else if (type === 'passage') {
+      return `
+Extract the reading passage from this image. Several questions refer to it, so nothing may be left out.
+
+Requirements:
+- Extract the complete passage exactly as written, including any instruction line such as "Read the passage below"
+- Keep each paragraph on its own line and join lines that were only broken to fit the page
+- Keep tables as one row per line with cells separated by " | "
+- Clean up any OCR artifacts
+
+${notation}
+
+Respond with only the cleaned passage text.
 `;
     } else {
       return `
@@ -213,16 +467,16 @@ Extract the answer option text from this image. This is likely a multiple choice
 
 Requirements:
 - Extract only the option text (not the letter identifier)
-- Preserve mathematical notation using LaTeX format with $ symbols
 - Clean up any OCR artifacts
-- Wrap mathematical expressions in $ symbols
+
+${notation}
 
 Respond with only the cleaned option text.
 `;
     }
   }
 
-  private parseGeminiResponse(text: string, type: 'question' | 'option'): GeminiExtractionResult {
+  private parseGeminiResponse(text: string, type: ExtractionType): GeminiExtractionResult {
     // Clean the response text
     const cleanedText = text
       .replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, '') // Remove code blocks
@@ -239,48 +493,128 @@ Respond with only the cleaned option text.
       text: cleanedText,
       confidence,
       hasLatex,
-      isQuestion: type === 'question'
+      isQuestion: type === 'question',
+      source: 'vision'
     };
   }
 
-  private parseJSONResponse(text: string): any {
-    try {
-      // Try to extract JSON from the response
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-      
-      // Fallback parsing if JSON is malformed
-      const questionMatch = text.match(/"question":\s*"([^"]+)"/);
-      const optionsMatch = text.match(/"options":\s*\[(.*?)\]/);
-      const latexMatch = text.match(/"hasLatex":\s*(true|false)/);
-      
-      let options: string[] = [];
-      if (optionsMatch) {
-        options = optionsMatch[1]
-          .split(',')
-          .map(opt => opt.replace(/^\s*"|"\s*$/g, '').trim())
-          .filter(opt => opt.length > 0);
+  // Repair prompts pass useCache = false: their responses are never cached, so a
+  // lookup could only miss and would skew the cache's hit rate
+  private async generateFromImage(prompt: string, base64Data: string, useCache = true): Promise<GeneratedText> {
+    // Settings are part of the key so a different model or endpoint never sees stale answers
+    const cacheKey = useCache && ExtractionCache.isAvailable()
+      ? await ExtractionCache.createKey([JSON.stringify(this.settings), prompt, base64Data])
+      : null;
+    if (cacheKey && !this.bypassCache) {
+      const cached = ExtractionCache.get(cacheKey);
+      if (cached !== null) {
+        return { text: cached, usage: this.recordUsage({ ...emptyUsage(), cachedRequests: 1 }), cacheKey: null };
       }
+    }
 
+    try {
+      const result = await this.model.generateContent([
+        prompt,
+        {
+          inlineData: {
+            data: base64Data,
+            mimeType: 'image/png'
+          }
+        }
+      ]);
+
+      const response = await result.response;
       return {
-        question: questionMatch?.[1] || '',
-        options,
-        hasLatex: latexMatch?.[1] === 'true',
-        confidence: 85
+        text: response.text(),
+        usage: this.recordUsage(this.toTokenUsage(response.usageMetadata)),
+        cacheKey
       };
     } catch (error) {
-      console.error('Failed to parse Gemini response:', error);
-      return {
-        question: '',
-        options: [],
-        hasLatex: false,
-        confidence: 0
-      };
+      throw toQueueError(error);
     }
   }
 
+  private cacheResponse(cacheKey: string | null, text: string): void {
+    if (cacheKey) {
+      ExtractionCache.set(cacheKey, text);
+    }
+  }
+
+  private toTokenUsage(metadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+  }): TokenUsage {
+    const promptTokens = metadata?.promptTokenCount ?? 0;
+    const outputTokens = metadata?.candidatesTokenCount ?? 0;
+
+    return {
+      promptTokens,
+      outputTokens,
+      totalTokens: metadata?.totalTokenCount ?? promptTokens + outputTokens,
+      requests: 1,
+      cachedRequests: 0,
+      costUsd: estimateCost(this.settings.model, promptTokens, outputTokens)
+    };
+  }
+
+  private recordUsage(usage: TokenUsage): TokenUsage {
+    this.usageListeners.forEach(listener => listener(usage));
+    return usage;
+  }
+
+  // Asks for JSON matching `schema`, sending the validation error back to the
+  // model as a repair prompt until it complies or the attempts run out
+  private async generateValidated<T>(
+    prompt: string,
+    responseFormat: string,
+    schema: Schema,
+    base64Data: string
+  ): Promise<ValidatedResponse<T>> {
+    let currentPrompt = prompt;
+    let lastError = '';
+    let usage = emptyUsage();
+    // Responses that fail validation are never cached, so a retry asks again.
+    // A repaired response is cached for the original prompt instead.
+    let originalCacheKey: string | null = null;
+
+    for (let attempt = 0; attempt <= this.maxRepairAttempts; attempt++) {
+      const generated = await this.generateFromImage(currentPrompt, base64Data, attempt === 0);
+      usage = addUsage(usage, generated.usage);
+      const validation = parseAndValidate<T>(generated.text, schema);
+      if (attempt === 0) {
+        originalCacheKey = generated.cacheKey;
+      }
+
+      if (validation.success) {
+        this.cacheResponse(originalCacheKey, generated.text);
+        return { data: validation.data, status: attempt === 0 ? 'valid' : 'repaired', usage };
+      }
+
+      lastError = validation.error;
+      console.warn(`Gemini response failed validation (attempt ${attempt + 1}):`, lastError);
+      currentPrompt = this.createRepairPrompt(generated.text, lastError, responseFormat);
+    }
+
+    return { data: null, status: 'failed', error: lastError, usage };
+  }
+
+  private createRepairPrompt(previousResponse: string, error: string, responseFormat: string): string {
+    return `
+Your previous response to this image could not be used because it did not match the required JSON format.
+
+Validation error: ${error}
+
+Previous response:
+${previousResponse}
+
+Look at the image again and respond with ONLY a JSON object in this exact format, with no other text:
+${responseFormat}
+
+Make sure all strings are properly quoted and escaped (commas and quotes inside text are allowed when escaped).
+`;
+  }
+
   private detectLatex(text: string): boolean {
     const latexPatterns = [
       /\$[^$]+\$/g,
@@ -327,8 +661,7 @@ Respond with only the cleaned option text.
 
   async validateApiKey(apiKey: string): Promise<boolean> {
     try {
-      const genAI = new GoogleGenerativeAI(apiKey);
-      const model = genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
+      const model = createModel(apiKey, this.settings);
       
       // Test with a simple text prompt
       const result = await model.generateContent('Say "API key valid" if you can read this.');
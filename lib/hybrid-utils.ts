@@ -0,0 +1,84 @@
+// lib/hybrid-utils.ts
+import { TextLayerExtractor } from './text-layer-utils';
+import { containsMathSymbols, detectLatex } from './latex-utils';
+import { isGarbledText } from './text-utils';
+import type { ExtractionProvider } from './extraction-providers';
+import type { PromptProfile } from './prompt-profiles';
+import type {
+  BoundingBox,
+  ExtractionType,
+  MCQExtractionResult,
+  TextExtractionResult,
+  TokenUsage
+} from './types';
+
+// Text-layer output is only trusted when it is present, readable and free of math,
+// since PDF text layers flatten equations into unusable glyph runs
+export const needsVisionExtraction = (text: string): boolean => {
+  return !text.trim() || isGarbledText(text) || detectLatex(text) || containsMathSymbols(text);
+};
+
+export class HybridExtractor implements ExtractionProvider {
+  readonly id = 'hybrid' as const;
+
+  constructor(
+    private readonly textLayer: TextLayerExtractor,
+    private readonly vision: ExtractionProvider
+  ) {}
+
+  isInitialized(): boolean {
+    return this.textLayer.isInitialized() && this.vision.isInitialized();
+  }
+
+  async extractTextFromCanvas(
+    canvas: HTMLCanvasElement,
+    bbox: BoundingBox,
+    extractionType: ExtractionType = 'question',
+    profile?: PromptProfile
+  ): Promise<TextExtractionResult> {
+    const textLayerResult = await this.textLayer.extractTextFromCanvas(canvas, bbox, extractionType);
+    if (!needsVisionExtraction(textLayerResult.text)) {
+      return textLayerResult;
+    }
+
+    const visionResult = await this.vision.extractTextFromCanvas(canvas, bbox, extractionType, profile);
+    return { ...visionResult, source: 'vision' };
+  }
+
+  async extractMCQFromCanvas(
+    canvas: HTMLCanvasElement,
+    questionBox: BoundingBox,
+    optionBoxes: BoundingBox[],
+    profile?: PromptProfile
+  ): Promise<MCQExtractionResult> {
+    // The text layer can't tell a match question's two columns apart
+    if (questionBox.questionType === 'match') {
+      const visionResult = await this.vision.extractMCQFromCanvas(canvas, questionBox, optionBoxes, profile);
+      return { ...visionResult, source: 'vision' };
+    }
+
+    const textLayerResult = await this.textLayer.extractMCQFromCanvas(canvas, questionBox, optionBoxes);
+
+    // Every region must read cleanly, otherwise the whole MCQ goes to the vision model
+    // so that question and options stay consistent with each other
+    const texts = [textLayerResult.question, ...textLayerResult.options];
+    const allClean = textLayerResult.options.length === optionBoxes.length &&
+      texts.every(text => !needsVisionExtraction(text));
+
+    if (allClean) {
+      return textLayerResult;
+    }
+
+    const visionResult = await this.vision.extractMCQFromCanvas(canvas, questionBox, optionBoxes, profile);
+    return { ...visionResult, source: 'vision' };
+  }
+
+  async dispose(): Promise<void> {
+    await this.vision.dispose?.();
+  }
+
+  // The text layer is free, so only the vision provider's usage counts
+  subscribeUsage(listener: (usage: TokenUsage) => void): () => void {
+    return this.vision.subscribeUsage?.(listener) ?? (() => {});
+  }
+}
@@ -0,0 +1,252 @@
+// lib/job-queue.ts
+import type { JobItemStatus, JobQueueState, JobStatus } from './types';
+
+// Thrown for failures that are worth trying again, such as server errors
+export class RetryableError extends Error {
+  constructor(message: string, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'RetryableError';
+    // Keeps instanceof working when compiled down to ES5
+    Object.setPrototypeOf(this, RetryableError.prototype);
+  }
+}
+
+// A 429 from the API; every worker holds off until the server's retry delay has passed
+export class RateLimitError extends RetryableError {
+  constructor(message: string, retryAfterMs?: number) {
+    super(message, retryAfterMs);
+    this.name = 'RateLimitError';
+    Object.setPrototypeOf(this, RateLimitError.prototype);
+  }
+}
+
+export interface JobQueueOptions {
+  concurrency?: number;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export interface JobResult<T> {
+  id: string;
+  status: JobStatus;
+  result?: T;
+  error?: string;
+}
+
+type JobQueueListener = (items: JobItemStatus[], state: JobQueueState) => void;
+
+interface Job<T> {
+  item: JobItemStatus;
+  run: () => Promise<T>;
+  result?: T;
+}
+
+export const DEFAULT_MAX_RETRIES = 3;
+
+// Runs async jobs with a concurrency limit, retrying retryable failures with
+// exponential backoff. Pausing stops new attempts from starting; cancelling
+// also drops everything not yet started. Attempts already in flight always finish.
+export class JobQueue<T> {
+  private jobs: Job<T>[] = [];
+  private state: JobQueueState = 'idle';
+  private listeners: JobQueueListener[] = [];
+  private wakers: Array<() => void> = [];
+  private cooldownUntil = 0;
+
+  private readonly concurrency: number;
+  private readonly maxRetries: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+
+  constructor(options: JobQueueOptions = {}) {
+    this.concurrency = Math.max(1, options.concurrency ?? 1);
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.baseDelayMs = options.baseDelayMs ?? 1000;
+    this.maxDelayMs = options.maxDelayMs ?? 60000;
+  }
+
+  add(id: string, label: string, run: () => Promise<T>): void {
+    this.jobs.push({ item: { id, label, status: 'pending', attempts: 0 }, run });
+    this.notify();
+  }
+
+  subscribe(listener: JobQueueListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  getState(): JobQueueState {
+    return this.state;
+  }
+
+  getItems(): JobItemStatus[] {
+    return this.jobs.map(job => ({ ...job.item }));
+  }
+
+  async run(): Promise<JobResult<T>[]> {
+    if (this.state !== 'idle') {
+      throw new Error('Job queue has already been started');
+    }
+
+    this.setState('running');
+    const workerCount = Math.min(this.concurrency, this.jobs.length);
+    await Promise.all(Array.from({ length: workerCount }, () => this.work()));
+    this.setState(this.isCancelled() ? 'cancelled' : 'complete');
+
+    return this.jobs.map(job => ({
+      id: job.item.id,
+      status: job.item.status,
+      result: job.result,
+      error: job.item.error,
+    }));
+  }
+
+  pause(): void {
+    if (this.state === 'running') {
+      this.setState('paused');
+    }
+  }
+
+  resume(): void {
+    if (this.state === 'paused') {
+      this.setState('running');
+      this.wakeAll();
+    }
+  }
+
+  cancel(): void {
+    if (this.state !== 'running' && this.state !== 'paused') return;
+
+    this.setState('cancelling');
+    this.jobs
+      .filter(job => job.item.status === 'pending')
+      .forEach(job => {
+        job.item = { ...job.item, status: 'cancelled' };
+      });
+    this.notify();
+    this.wakeAll();
+  }
+
+  private isCancelled(): boolean {
+    return this.state === 'cancelling';
+  }
+
+  private async work(): Promise<void> {
+    for (;;) {
+      await this.waitUntilReady();
+      if (this.isCancelled()) return;
+
+      const job = this.jobs.find(j => j.item.status === 'pending');
+      if (!job) return;
+
+      await this.runJob(job);
+    }
+  }
+
+  private async runJob(job: Job<T>): Promise<void> {
+    for (;;) {
+      this.updateJob(job, {
+        status: 'running',
+        attempts: job.item.attempts + 1,
+        retryAt: undefined,
+      });
+
+      try {
+        job.result = await job.run();
+        this.updateJob(job, { status: 'succeeded', error: undefined });
+        return;
+      } catch (error) {
+        const message = (error as Error).message;
+
+        if (!(error instanceof RetryableError) || job.item.attempts > this.maxRetries) {
+          this.updateJob(job, { status: 'failed', error: message });
+          return;
+        }
+
+        const delay = this.getRetryDelay(error, job.item.attempts);
+        const retryAt = Date.now() + delay;
+        if (error instanceof RateLimitError) {
+          this.cooldownUntil = Math.max(this.cooldownUntil, retryAt);
+        }
+
+        this.updateJob(job, { status: 'retrying', error: message, retryAt });
+        await this.sleepUntil(retryAt);
+        await this.waitUntilReady();
+
+        if (this.isCancelled()) {
+          this.updateJob(job, { status: 'cancelled', retryAt: undefined });
+          return;
+        }
+      }
+    }
+  }
+
+  private getRetryDelay(error: RetryableError, attempts: number): number {
+    if (error.retryAfterMs !== undefined) {
+      return error.retryAfterMs;
+    }
+
+    // Jitter keeps parallel workers from retrying in lockstep
+    const backoff = Math.min(this.maxDelayMs, this.baseDelayMs * Math.pow(2, attempts - 1));
+    return backoff + Math.random() * backoff * 0.25;
+  }
+
+  // Blocks while paused or while a rate limit cooldown is in effect
+  private async waitUntilReady(): Promise<void> {
+    for (;;) {
+      if (this.isCancelled()) return;
+
+      if (this.state === 'paused') {
+        await this.wait();
+      } else if (Date.now() < this.cooldownUntil) {
+        await this.sleepUntil(this.cooldownUntil);
+      } else {
+        return;
+      }
+    }
+  }
+
+  private async sleepUntil(time: number): Promise<void> {
+    while (!this.isCancelled() && Date.now() < time) {
+      await this.wait(time - Date.now());
+    }
+  }
+
+  // Resolves after `ms`, or on the next resume or cancel if sooner
+  private wait(ms?: number): Promise<void> {
+    return new Promise(resolve => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const wake = () => {
+        if (timer !== undefined) clearTimeout(timer);
+        this.wakers = this.wakers.filter(w => w !== wake);
+        resolve();
+      };
+      if (ms !== undefined) {
+        timer = setTimeout(wake, ms);
+      }
+      this.wakers.push(wake);
+    });
+  }
+
+  private wakeAll(): void {
+    this.wakers.slice().forEach(wake => wake());
+  }
+
+  private updateJob(job: Job<T>, updates: Partial<JobItemStatus>): void {
+    job.item = { ...job.item, ...updates };
+    this.notify();
+  }
+
+  private setState(state: JobQueueState): void {
+    this.state = state;
+    this.notify();
+  }
+
+  private notify(): void {
+    const items = this.getItems();
+    this.listeners.forEach(listener => listener(items, this.state));
+  }
+}
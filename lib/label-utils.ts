@@ -0,0 +1,66 @@
+// lib/label-utils.ts
+import { splitQuestionNumber } from './layout-analyser';
+import { optionLabel } from './question-types';
+import type { MCQ, MCQExtractionResult } from './types';
+
+// How questions and options are numbered in exports
+export type LabelStyle = 'source' | 'normalized';
+
+export interface LabelStyleInfo {
+  id: LabelStyle;
+  name: string;
+  description: string;
+}
+
+export const LABEL_STYLES: Record<LabelStyle, LabelStyleInfo> = {
+  source: {
+    id: 'source',
+    name: 'As printed',
+    description: 'Question numbers and option labels from the paper, e.g. Q17 with options (i)-(iv)'
+  },
+  normalized: {
+    id: 'normalized',
+    name: 'Normalised',
+    description: 'Questions numbered from 1 in export order, options lettered A, B, C...'
+  }
+};
+
+export const DEFAULT_LABEL_STYLE: LabelStyle = 'source';
+
+// Moves the printed question number out of the text. Providers that report the
+// number separately leave it out of the text, so their text is kept as it is:
+// it may really start with something like "(3)".
+export const takeSourceLabels = (
+  result: Pick<MCQExtractionResult, 'question' | 'questionNumber' | 'options' | 'optionLabels'>
+): Pick<MCQ, 'question' | 'questionNumber' | 'optionLabels'> => {
+  const { questionNumber, text } = result.questionNumber === undefined
+    ? splitQuestionNumber(result.question)
+    : { questionNumber: result.questionNumber, text: result.question };
+  const labels = result.optionLabels ?? [];
+  return {
+    question: text,
+    questionNumber,
+    // Labels that don't line up with the options would mislabel them
+    optionLabels: labels.length === result.options.length && labels.some(label => label)
+      ? labels.map(label => label.trim())
+      : undefined,
+  };
+};
+
+export const getOptionLabel = (mcq: MCQ, index: number, style: LabelStyle = DEFAULT_LABEL_STYLE): string => {
+  return (style === 'source' && mcq.optionLabels?.[index]) || optionLabel(index);
+};
+
+// Index is the question's position in the export, used when no number was printed
+export const getQuestionNumber = (mcq: MCQ, index: number, style: LabelStyle = DEFAULT_LABEL_STYLE): number => {
+  return style === 'source' ? mcq.questionNumber ?? index + 1 : index + 1;
+};
+
+// The MCQ with every question number and option label filled in for the style
+export const applyLabelStyle = (mcq: MCQ, index: number, style: LabelStyle): MCQ => ({
+  ...mcq,
+  questionNumber: getQuestionNumber(mcq, index, style),
+  optionLabels: mcq.options.length > 0
+    ? mcq.options.map((_, optionIndex) => getOptionLabel(mcq, optionIndex, style))
+    : undefined,
+});
@@ -13,6 +13,11 @@ export const detectLatex = (text: string): boolean => {
   return latexPatterns.some(pattern => pattern.test(text));
 };
 
+export const containsMathSymbols = (text: string): boolean => {
+  // Unicode math as it usually appears in a PDF text layer
+  return /[∑∏∫∞√∂∇≤≥≠≈±÷×∝∈∉⊂⊃⊆⊇∪∩→⇒⇔∀∃²³¹⁰⁴⁵⁶⁷⁸⁹₀₁₂₃₄₅₆₇₈₉αβγδεζηθικλμνξπρστυφχψω]/.test(text);
+};
+
 export const cleanLatex = (text: string): string => {
   // Clean common OCR errors in LaTeX
   return text
@@ -0,0 +1,232 @@
+// lib/layout-analyser.ts
+import type * as pdfjsLib from 'pdfjs-dist';
+import type { BoundingBox } from './types';
+
+interface TextFragment {
+  str: string;
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+interface TextLine {
+  fragments: TextFragment[];
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+interface Region {
+  type: 'question' | 'option';
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+// "1.", "12)", "(3)", "Q12", "Q.12", "Q 12:"
+const QUESTION_START = /^\s*(?:Q\.?\s*(\d{1,3})[.):]?|(\d{1,3})[.)]|\((\d{1,3})\))(?=\s|$)/i;
+
+// "(A)", "a)", "B.", "(iv)", "i."
+const OPTION_MARKER = /^\s*(?:\((?:[a-hA-H]|[ivx]{1,4})\)|(?:[a-hA-H]|[ivx]{1,4})[.)])(?=\s|$)/;
+
+// "(1)" to "(8)", which QUESTION_START also matches
+const NUMBERED_OPTION_MARKER = /^\s*\(([1-8])\)(?=\s|$)/;
+
+const REGION_PADDING = 4;
+
+// The number a question is printed with, if its text starts with one
+export const parseQuestionNumber = (text: string): number | null => {
+  return splitQuestionNumber(text).questionNumber ?? null;
+};
+
+// The printed number and the question text after it
+export const splitQuestionNumber = (text: string): { questionNumber?: number; text: string } => {
+  const match = QUESTION_START.exec(text);
+  if (!match) return { text };
+  return { questionNumber: Number(match[1] ?? match[2] ?? match[3]), text: text.slice(match[0].length).trim() };
+};
+
+const toFragments = (items: any[], viewport: pdfjsLib.PageViewport): TextFragment[] => {
+  return items
+    .filter(item => typeof item.str === 'string' && item.str.trim().length > 0 && item.transform)
+    .map(item => {
+      const [, , c, d, e, f] = item.transform;
+      const height = item.height || Math.hypot(c, d);
+      const [ax, ay] = viewport.convertToViewportPoint(e, f);
+      const [bx, by] = viewport.convertToViewportPoint(e + item.width, f + height);
+
+      return {
+        str: item.str,
+        x0: Math.min(ax, bx),
+        y0: Math.min(ay, by),
+        x1: Math.max(ax, bx),
+        y1: Math.max(ay, by),
+      };
+    });
+};
+
+// Finds a vertical gutter near the middle of the page that almost no text crosses
+const findColumnSplit = (fragments: TextFragment[], pageWidth: number): number | null => {
+  if (fragments.length < 10) return null;
+
+  let bestX = 0;
+  let bestCrossings = Infinity;
+  for (let x = pageWidth * 0.35; x <= pageWidth * 0.65; x += 2) {
+    const crossings = fragments.filter(f => f.x0 < x && f.x1 > x).length;
+    if (crossings < bestCrossings) {
+      bestCrossings = crossings;
+      bestX = x;
+    }
+  }
+
+  const left = fragments.filter(f => f.x1 <= bestX).length;
+  const right = fragments.filter(f => f.x0 >= bestX).length;
+  const isTwoColumn = bestCrossings <= fragments.length * 0.05 &&
+    left >= fragments.length * 0.2 &&
+    right >= fragments.length * 0.2;
+
+  return isTwoColumn ? bestX : null;
+};
+
+const groupIntoLines = (fragments: TextFragment[]): TextLine[] => {
+  const sorted = [...fragments].sort((a, b) => a.y0 - b.y0 || a.x0 - b.x0);
+  const lines: TextLine[] = [];
+
+  sorted.forEach(fragment => {
+    const height = fragment.y1 - fragment.y0;
+    const line = lines.find(l => {
+      const overlap = Math.min(l.y1, fragment.y1) - Math.max(l.y0, fragment.y0);
+      return overlap > height * 0.5;
+    });
+
+    if (line) {
+      line.fragments.push(fragment);
+      line.x0 = Math.min(line.x0, fragment.x0);
+      line.y0 = Math.min(line.y0, fragment.y0);
+      line.x1 = Math.max(line.x1, fragment.x1);
+      line.y1 = Math.max(line.y1, fragment.y1);
+    } else {
+      lines.push({ fragments: [fragment], ...fragment });
+    }
+  });
+
+  lines.forEach(line => line.fragments.sort((a, b) => a.x0 - b.x0));
+  return lines.sort((a, b) => a.y0 - b.y0);
+};
+
+const extend = (region: Region, box: { x0: number; y0: number; x1: number; y1: number }) => {
+  region.x0 = Math.min(region.x0, box.x0);
+  region.y0 = Math.min(region.y0, box.y0);
+  region.x1 = Math.max(region.x1, box.x1);
+  region.y1 = Math.max(region.y1, box.y1);
+};
+
+const lineText = (line: TextLine): string => line.fragments.map(f => f.str).join(' ');
+
+// Splits a line into segments that each start at an option marker, so
+// "(A) 2  (B) 4  (C) 6" yields three option regions
+const splitOptionSegments = (line: TextLine, isMarker: (text: string) => boolean): TextFragment[][] => {
+  const segments: TextFragment[][] = [];
+
+  line.fragments.forEach(fragment => {
+    if (isMarker(fragment.str) || segments.length === 0) {
+      segments.push([fragment]);
+    } else {
+      segments[segments.length - 1].push(fragment);
+    }
+  });
+
+  return segments;
+};
+
+const analyseColumn = (lines: TextLine[]): Region[] => {
+  const regions: Region[] = [];
+  let current: Region | null = null;
+  let inQuestion = false;
+  // Under a question numbered "12." or "Q12", "(1)", "(2)"... are its options as
+  // long as they count up from (1); under "(12)" they start the next question
+  let numberedOptionsAllowed = false;
+  let lastNumberedOption = 0;
+
+  const isNumberedOption = (text: string): boolean => {
+    const match = NUMBERED_OPTION_MARKER.exec(text);
+    return numberedOptionsAllowed && !!match && Number(match[1]) === lastNumberedOption + 1;
+  };
+
+  lines.forEach(line => {
+    const text = lineText(line);
+
+    if (QUESTION_START.test(text) && !isNumberedOption(text)) {
+      current = { type: 'question', x0: line.x0, y0: line.y0, x1: line.x1, y1: line.y1 };
+      regions.push(current);
+      inQuestion = true;
+      numberedOptionsAllowed = !/^\s*\(/.test(text);
+      lastNumberedOption = 0;
+      return;
+    }
+
+    // Text before the first question is headers or instructions
+    if (!inQuestion) return;
+
+    if (OPTION_MARKER.test(text) || isNumberedOption(text)) {
+      const isMarker = (fragmentText: string) => {
+        if (OPTION_MARKER.test(fragmentText)) return true;
+        if (!isNumberedOption(fragmentText)) return false;
+        lastNumberedOption++;
+        return true;
+      };
+      splitOptionSegments(line, isMarker).forEach(segment => {
+        const option: Region = { type: 'option', x0: Infinity, y0: Infinity, x1: -Infinity, y1: -Infinity };
+        segment.forEach(fragment => extend(option, fragment));
+        regions.push(option);
+        current = option;
+      });
+      return;
+    }
+
+    // Continuation lines belong to whatever region is open
+    if (current) {
+      extend(current, line);
+    }
+  });
+
+  return regions;
+};
+
+export const analysePageLayout = async (
+  pdf: pdfjsLib.PDFDocumentProxy,
+  pageNumber: number,
+  scale: number
+): Promise<BoundingBox[]> => {
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale });
+  const textContent = await page.getTextContent();
+
+  const fragments = toFragments(textContent.items, viewport);
+  const split = findColumnSplit(fragments, viewport.width);
+
+  // Read the left column fully before the right one
+  const columns = split === null
+    ? [fragments]
+    : [
+        fragments.filter(f => (f.x0 + f.x1) / 2 < split),
+        fragments.filter(f => (f.x0 + f.x1) / 2 >= split),
+      ];
+
+  const regions = columns.flatMap(column => analyseColumn(groupIntoLines(column)));
+
+  return regions.map((region, index) => ({
+    id: `bbox-${Date.now()}-${index}-${Math.random().toString(36).substr(2, 5)}`,
+    x: Math.max(0, region.x0 - REGION_PADDING),
+    y: Math.max(0, region.y0 - REGION_PADDING),
+    width: region.x1 - region.x0 + REGION_PADDING * 2,
+    height: region.y1 - region.y0 + REGION_PADDING * 2,
+    type: region.type,
+    page: pageNumber,
+    scale,
+    suggested: true,
+  }));
+};
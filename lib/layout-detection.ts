@@ -0,0 +1,130 @@
+// lib/layout-detection.ts
+import type * as pdfjsLib from 'pdfjs-dist';
+import { PageRenderer } from './page-renderer';
+import { analysePageLayout } from './layout-analyser';
+import { linkOptionsInReadingOrder } from './option-utils';
+import { DEFAULT_RENDER_SCALE } from './pdf-utils';
+import type { GeminiExtractor } from './gemini-utils';
+import type { BoundingBox, ExtractionProgress, LayoutDetectorId } from './types';
+
+export interface LayoutDetector {
+  readonly id: LayoutDetectorId;
+  detectPageRegions(pageNumber: number, renderer: PageRenderer): Promise<BoundingBox[]>;
+}
+
+export interface LayoutDetectorInfo {
+  id: LayoutDetectorId;
+  name: string;
+  description: string;
+  requiresApiKey: boolean;
+}
+
+export const LAYOUT_DETECTORS: Record<LayoutDetectorId, LayoutDetectorInfo> = {
+  gemini: {
+    id: 'gemini',
+    name: 'Gemini AI',
+    description: 'Sends the full page image to Gemini to find questions and options',
+    requiresApiKey: true
+  },
+  heuristic: {
+    id: 'heuristic',
+    name: 'Text Layout (offline)',
+    description: 'Finds question numbers and option markers in the PDF text layer; nothing leaves your browser',
+    requiresApiKey: false
+  }
+};
+
+export const createLayoutDetector = (
+  id: LayoutDetectorId,
+  options: { geminiExtractor?: GeminiExtractor | null; pdf: pdfjsLib.PDFDocumentProxy }
+): LayoutDetector => {
+  switch (id) {
+    case 'gemini': {
+      const extractor = options.geminiExtractor;
+      if (!extractor) {
+        throw new Error('Gemini not initialized. Please provide a valid API key.');
+      }
+      return {
+        id: 'gemini',
+        detectPageRegions: async (pageNumber, renderer) => {
+          const canvas = await renderer.getPageCanvas(pageNumber);
+          return extractor.detectMCQRegions(canvas, pageNumber, renderer.scale);
+        }
+      };
+    }
+    case 'heuristic':
+      return {
+        id: 'heuristic',
+        // Works purely from text positions, so the page never needs rendering
+        detectPageRegions: (pageNumber, renderer) =>
+          analysePageLayout(options.pdf, pageNumber, renderer.scale)
+      };
+    default:
+      throw new Error(`Unknown layout detector: ${id}`);
+  }
+};
+
+export interface LayoutDetectionOptions {
+  pdf: pdfjsLib.PDFDocumentProxy;
+  pages: number[];
+  detector: LayoutDetector;
+  onProgress?: (progress: ExtractionProgress) => void;
+}
+
+export const detectLayout = async ({
+  pdf,
+  pages,
+  detector,
+  onProgress,
+}: LayoutDetectionOptions): Promise<BoundingBox[]> => {
+  // Render at the viewer's default scale so suggestions line up with the overlay
+  const renderer = new PageRenderer(pdf, DEFAULT_RENDER_SCALE);
+  const suggestions: BoundingBox[] = [];
+  const failedPages: number[] = [];
+
+  try {
+    for (let i = 0; i < pages.length; i++) {
+      onProgress?.({
+        current: i + 1,
+        total: pages.length,
+        stage: 'processing',
+        currentItem: `Detecting questions on page ${pages[i]}...`
+      });
+
+      try {
+        const regions = await detector.detectPageRegions(pages[i], renderer);
+        suggestions.push(...linkOptionsInReadingOrder(regions));
+      } catch (error) {
+        // Keep going so one unreadable page doesn't discard the rest of the range
+        console.error(`Region detection failed for page ${pages[i]}:`, error);
+        failedPages.push(pages[i]);
+      }
+
+      // Each page is only needed once, so free it before rendering the next
+      await renderer.release(pages[i]);
+    }
+
+    onProgress?.({
+      current: pages.length,
+      total: pages.length,
+      stage: 'complete',
+      error: failedPages.length > 0
+        ? `Detection failed on page${failedPages.length > 1 ? 's' : ''} ${failedPages.join(', ')}`
+        : undefined
+    });
+
+    return suggestions;
+  } finally {
+    await renderer.clear();
+  }
+};
+
+export const getPageRange = (from: number, to: number, numPages: number): number[] => {
+  const start = Math.max(1, Math.min(from, to));
+  const end = Math.min(numPages, Math.max(from, to));
+  const pages: number[] = [];
+  for (let page = start; page <= end; page++) {
+    pages.push(page);
+  }
+  return pages;
+};
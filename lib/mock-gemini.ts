@@ -0,0 +1,251 @@
+// lib/mock-gemini.ts
+// Server-side only: replays recorded Gemini responses so the extraction flow
+// can run offline and deterministically. Used by pages/api/mock-gemini.
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export type MockFault = 'rate-limit' | 'timeout' | 'malformed' | 'server-error';
+
+const MOCK_FAULTS: MockFault[] = ['rate-limit', 'timeout', 'malformed', 'server-error'];
+
+export interface FaultSpec {
+  fault: MockFault;
+  // Only the first N requests for each fixture key fail, so retries can succeed
+  count?: number;
+}
+
+export interface MockResponse {
+  text?: string;
+  // A non-200 status is returned as a Gemini-style error
+  status?: number;
+  message?: string;
+  retryDelay?: string;
+  delayMs?: number;
+}
+
+export interface MockFixture {
+  // Start of the prompt, kept only so fixture files are readable
+  prompt?: string;
+  response: MockResponse;
+}
+
+export interface MockFallback {
+  promptIncludes: string;
+  response: MockResponse;
+}
+
+export interface MockRequest {
+  model: string;
+  faults: FaultSpec[];
+  body: any;
+}
+
+export interface MockResult {
+  status: number;
+  body: unknown;
+  delayMs?: number;
+}
+
+export interface MockServerOptions {
+  fixturesDir: string;
+  timeoutMs: number;
+  // When set, requests without a fixture are forwarded to Google and recorded
+  recordApiKey?: string;
+}
+
+const UPSTREAM_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+
+// Gemini bills every image as a fixed 258 tokens
+const IMAGE_TOKENS = 258;
+
+// Faults are counted per key across requests for as long as the server runs
+const faultCounts = new Map<string, number>();
+
+// Fault specs come from path segments in front of the API version, e.g.
+// /api/mock-gemini/rate-limit@1/malformed/v1beta/models/...
+export const parseFaultSpecs = (segments: string[]): FaultSpec[] => {
+  return segments.map(segment => {
+    const [name, count] = segment.split('@');
+    if (!MOCK_FAULTS.includes(name as MockFault)) {
+      throw new Error(`Unknown fault "${name}". Expected one of: ${MOCK_FAULTS.join(', ')}`);
+    }
+    if (count !== undefined && !/^\d+$/.test(count)) {
+      throw new Error(`Invalid fault count in "${segment}"`);
+    }
+    return { fault: name as MockFault, count: count === undefined ? undefined : Number(count) };
+  });
+};
+
+// Splits the path after the mock's mount point, e.g.
+// ["rate-limit@1", "v1beta", "models", "gemini-1.5-flash:generateContent"]
+export const parseMockPath = (segments: string[]): Pick<MockRequest, 'model' | 'faults'> => {
+  const versionIndex = segments.findIndex(segment => /^v1(beta)?$/.test(segment));
+  const match = /^models\/([^:]+):generateContent$/.exec(segments.slice(versionIndex + 1).join('/'));
+  if (versionIndex === -1 || !match) {
+    throw new Error(`Unsupported mock endpoint: /${segments.join('/')}`);
+  }
+  return { model: match[1], faults: parseFaultSpecs(segments.slice(0, versionIndex)) };
+};
+
+export const getRequestParts = (body: any): { prompt: string; imageData: string } => {
+  const parts: any[] = (body?.contents ?? []).flatMap((content: any) => content?.parts ?? []);
+  return {
+    prompt: parts.filter(part => typeof part.text === 'string').map(part => part.text).join('\n'),
+    imageData: parts.filter(part => part.inlineData?.data).map(part => part.inlineData.data).join(''),
+  };
+};
+
+export const fixtureKey = (prompt: string, imageData: string): string => {
+  const hash = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+  return `${hash(prompt).slice(0, 16)}-${hash(imageData).slice(0, 16)}`;
+};
+
+const readJSON = <T>(filePath: string): T | null => {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch {
+    return null;
+  }
+};
+
+export const loadFixture = (fixturesDir: string, key: string): MockFixture | null => {
+  return readJSON<MockFixture>(path.join(fixturesDir, `${key}.json`));
+};
+
+export const saveFixture = (fixturesDir: string, key: string, fixture: MockFixture): void => {
+  fs.mkdirSync(fixturesDir, { recursive: true });
+  fs.writeFileSync(path.join(fixturesDir, `${key}.json`), JSON.stringify(fixture, null, 2) + '\n');
+};
+
+// Canned answers for crops that were never recorded, matched on prompt text
+export const findFallback = (fixturesDir: string, prompt: string): MockResponse | null => {
+  const fallbacks = readJSON<MockFallback[]>(path.join(fixturesDir, 'fallbacks.json')) ?? [];
+  return fallbacks.find(fallback => prompt.includes(fallback.promptIncludes))?.response ?? null;
+};
+
+export const buildSuccessBody = (text: string, prompt: string, hasImage: boolean) => {
+  const promptTokenCount = Math.ceil(prompt.length / 4) + (hasImage ? IMAGE_TOKENS : 0);
+  const candidatesTokenCount = Math.ceil(text.length / 4);
+
+  return {
+    candidates: [{
+      content: { role: 'model', parts: [{ text }] },
+      finishReason: 'STOP',
+      index: 0,
+    }],
+    usageMetadata: {
+      promptTokenCount,
+      candidatesTokenCount,
+      totalTokenCount: promptTokenCount + candidatesTokenCount,
+    },
+  };
+};
+
+const STATUS_NAMES: Record<number, string> = {
+  400: 'INVALID_ARGUMENT',
+  404: 'NOT_FOUND',
+  429: 'RESOURCE_EXHAUSTED',
+  500: 'INTERNAL',
+  502: 'UNAVAILABLE',
+  504: 'DEADLINE_EXCEEDED',
+};
+
+export const buildErrorBody = (status: number, message: string, retryDelay?: string) => ({
+  error: {
+    code: status,
+    message,
+    status: STATUS_NAMES[status] ?? 'UNKNOWN',
+    details: retryDelay
+      ? [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay }]
+      : undefined,
+  },
+});
+
+const shouldInject = (spec: FaultSpec, key: string): boolean => {
+  if (spec.count === undefined) return true;
+
+  const countKey = `${spec.fault}:${key}`;
+  const seen = faultCounts.get(countKey) ?? 0;
+  faultCounts.set(countKey, seen + 1);
+  return seen < spec.count;
+};
+
+const recordFromUpstream = async (
+  request: MockRequest,
+  prompt: string,
+  key: string,
+  options: MockServerOptions
+): Promise<MockResponse> => {
+  const response = await fetch(`${UPSTREAM_BASE_URL}/models/${request.model}:generateContent`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-goog-api-key': options.recordApiKey as string },
+    body: JSON.stringify(request.body),
+  });
+  const json: any = await response.json();
+
+  const recorded: MockResponse = response.ok
+    ? { text: json.candidates?.[0]?.content?.parts?.map((part: any) => part.text ?? '').join('') ?? '' }
+    : { status: response.status, message: json.error?.message ?? response.statusText };
+
+  saveFixture(options.fixturesDir, key, { prompt: prompt.slice(0, 200), response: recorded });
+  return recorded;
+};
+
+export const handleGenerateContent = async (
+  request: MockRequest,
+  options: MockServerOptions
+): Promise<MockResult> => {
+  const { prompt, imageData } = getRequestParts(request.body);
+  const key = fixtureKey(prompt, imageData);
+
+  let response = loadFixture(options.fixturesDir, key)?.response ??
+    findFallback(options.fixturesDir, prompt);
+
+  if (!response && options.recordApiKey) {
+    response = await recordFromUpstream(request, prompt, key, options);
+  }
+
+  if (!response) {
+    return {
+      status: 404,
+      body: buildErrorBody(404, `No fixture for key ${key}. Add fixtures/gemini/${key}.json or a matching fallback.`),
+    };
+  }
+
+  for (const spec of request.faults) {
+    if (!shouldInject(spec, key)) continue;
+
+    switch (spec.fault) {
+      case 'rate-limit':
+        return { status: 429, body: buildErrorBody(429, 'Resource has been exhausted (e.g. check quota).', '1s') };
+      case 'server-error':
+        return { status: 500, body: buildErrorBody(500, 'An internal error has occurred.') };
+      case 'timeout':
+        return {
+          status: 504,
+          body: buildErrorBody(504, 'Deadline exceeded.'),
+          delayMs: options.timeoutMs,
+        };
+      case 'malformed': {
+        // Cut the reply off mid-way, the way a truncated generation looks
+        const text = response.text ?? '';
+        return { status: 200, body: buildSuccessBody(text.slice(0, Math.floor(text.length / 2)), prompt, !!imageData) };
+      }
+    }
+  }
+
+  if (response.status && response.status !== 200) {
+    return {
+      status: response.status,
+      body: buildErrorBody(response.status, response.message ?? 'Mock error', response.retryDelay),
+      delayMs: response.delayMs,
+    };
+  }
+
+  return {
+    status: 200,
+    body: buildSuccessBody(response.text ?? '', prompt, !!imageData),
+    delayMs: response.delayMs,
+  };
+};
@@ -0,0 +1,109 @@
+// lib/option-utils.ts
+import { overlapArea } from './figure-utils';
+import { DEFAULT_RENDER_SCALE, scaleBoundingBox } from './pdf-utils';
+import type { BoundingBox } from './types';
+
+// Options are cropped from the render of their question's page, so only
+// questions on the option's own page can own it
+const isOptionParent = (option: BoundingBox, bbox: BoundingBox): boolean =>
+  bbox.type === 'question' && !bbox.suggested && bbox.page === option.page;
+
+// An option drawn inside a question's box belongs to it; otherwise to the closest
+// question above it, preferring one in the same column, otherwise the closest
+// question on the page
+export const findOptionParent = (
+  option: BoundingBox,
+  boxes: BoundingBox[]
+): BoundingBox | undefined => {
+  const target = scaleBoundingBox(option, DEFAULT_RENDER_SCALE);
+  const questions = boxes
+    .filter(bbox => isOptionParent(option, bbox))
+    .map(bbox => ({ bbox, scaled: scaleBoundingBox(bbox, DEFAULT_RENDER_SCALE) }));
+
+  const containing = questions
+    .map(candidate => ({ ...candidate, overlap: overlapArea(candidate.scaled, target) }))
+    .filter(candidate => candidate.overlap > 0)
+    .sort((a, b) => b.overlap - a.overlap)[0];
+  if (containing) return containing.bbox;
+
+  const above = questions
+    .filter(candidate => candidate.scaled.y <= target.y)
+    .sort((a, b) => b.scaled.y - a.scaled.y);
+  const sameColumn = above.find(candidate =>
+    candidate.scaled.x < target.x + target.width && target.x < candidate.scaled.x + candidate.scaled.width
+  );
+  if (sameColumn || above[0]) return (sameColumn ?? above[0]).bbox;
+
+  return questions
+    .sort((a, b) => Math.abs(a.scaled.y - target.y) - Math.abs(b.scaled.y - target.y))[0]?.bbox;
+};
+
+// Options keep an explicit link while it points at a question on their page;
+// missing or stale links (older projects, deleted questions) are inferred
+export const resolveOptionParentId = (option: BoundingBox, boxes: BoundingBox[]): string | undefined => {
+  if (option.parentId && boxes.some(bbox => bbox.id === option.parentId && isOptionParent(option, bbox))) {
+    return option.parentId;
+  }
+  return findOptionParent(option, boxes)?.id;
+};
+
+// Sorts boxes the way a page is read: by page, then row by row from the top,
+// left to right within a row. A box starts a new row unless its top is above
+// the middle of the row's first box, so a 2x2 grid of options reads A B / C D.
+const sortByReadingOrder = (boxes: BoundingBox[]): BoundingBox[] => {
+  const byTop = boxes
+    .map(bbox => ({ bbox, scaled: scaleBoundingBox(bbox, DEFAULT_RENDER_SCALE) }))
+    .sort((a, b) => a.bbox.page - b.bbox.page || a.scaled.y - b.scaled.y);
+
+  const rows: Array<typeof byTop> = [];
+  byTop.forEach(candidate => {
+    const row = rows[rows.length - 1];
+    const first = row?.[0];
+    if (first && first.bbox.page === candidate.bbox.page && candidate.scaled.y < first.scaled.y + first.scaled.height / 2) {
+      row.push(candidate);
+    } else {
+      rows.push([candidate]);
+    }
+  });
+
+  return rows.flatMap(row => row.sort((a, b) => a.scaled.x - b.scaled.x).map(candidate => candidate.bbox));
+};
+
+// A question's own options in reading order, whatever order they were drawn in
+export const getQuestionOptions = (questionBox: BoundingBox, boxes: BoundingBox[]): BoundingBox[] => {
+  return sortByReadingOrder(boxes
+    .filter(bbox => bbox.type === 'option' && !bbox.suggested)
+    .filter(bbox => resolveOptionParentId(bbox, boxes) === questionBox.id));
+};
+
+// Every question's own options in reading order, keyed by question id. Each
+// option's question is resolved once, so this suits labelling a whole document.
+export const getOptionsByQuestion = (boxes: BoundingBox[]): Record<string, BoundingBox[]> => {
+  const groups: Record<string, BoundingBox[]> = {};
+  boxes
+    .filter(bbox => bbox.type === 'option' && !bbox.suggested)
+    .forEach(option => {
+      const parentId = resolveOptionParentId(option, boxes);
+      if (parentId) {
+        groups[parentId] = [...(groups[parentId] ?? []), option];
+      }
+    });
+
+  Object.keys(groups).forEach(questionId => {
+    groups[questionId] = sortByReadingOrder(groups[questionId]);
+  });
+  return groups;
+};
+
+// Both layout detectors list regions in reading order with each question
+// followed by its options, which is a more reliable link than geometry
+export const linkOptionsInReadingOrder = (regions: BoundingBox[]): BoundingBox[] => {
+  let questionId: string | undefined;
+  return regions.map(region => {
+    if (region.type === 'question') {
+      questionId = region.id;
+      return region;
+    }
+    return region.type === 'option' && questionId ? { ...region, parentId: questionId } : region;
+  });
+};
@@ -0,0 +1,59 @@
+// lib/page-renderer.ts
+import type * as pdfjsLib from 'pdfjs-dist';
+import { renderPage } from './pdf-utils';
+import { createCanvas } from './canvas-utils';
+
+// Renders pages into off-screen canvases at a fixed scale, caching each page
+// so every box on that page is cropped from the same render
+export class PageRenderer {
+  private pages = new Map<number, Promise<HTMLCanvasElement>>();
+
+  constructor(
+    private readonly pdf: pdfjsLib.PDFDocumentProxy,
+    readonly scale: number
+  ) {}
+
+  getPageCanvas(pageNumber: number): Promise<HTMLCanvasElement> {
+    let pagePromise = this.pages.get(pageNumber);
+
+    if (!pagePromise) {
+      pagePromise = (async () => {
+        const canvas = createCanvas(1, 1);
+        await renderPage(this.pdf, pageNumber, canvas, this.scale);
+        return canvas;
+      })();
+
+      // Drop failed renders so a later call can retry the page
+      pagePromise.catch(() => this.pages.delete(pageNumber));
+      this.pages.set(pageNumber, pagePromise);
+    }
+
+    return pagePromise;
+  }
+
+  async release(pageNumber: number): Promise<void> {
+    const pagePromise = this.pages.get(pageNumber);
+    if (!pagePromise) return;
+
+    this.pages.delete(pageNumber);
+    const canvas = await pagePromise.catch(() => null);
+    if (canvas) {
+      canvas.width = 0;
+      canvas.height = 0;
+    }
+  }
+
+  async clear(): Promise<void> {
+    const pending = Array.from(this.pages.values());
+    this.pages.clear();
+
+    // Shrinking the canvases lets the browser release their pixel buffers right away
+    const canvases = await Promise.all(pending.map(page => page.catch(() => null)));
+    canvases.forEach(canvas => {
+      if (canvas) {
+        canvas.width = 0;
+        canvas.height = 0;
+      }
+    });
+  }
+}
@@ -0,0 +1,52 @@
+// lib/passage-utils.ts
+import { DEFAULT_RENDER_SCALE, scaleBoundingBox } from './pdf-utils';
+import type { BoundingBox, MCQ, Passage } from './types';
+
+// A comprehension set prints its passage first, so a new question box is linked
+// to the closest passage above it on the same page. Questions that continue on
+// the next page are linked by hand.
+export const findQuestionPassage = (
+  question: BoundingBox,
+  boxes: BoundingBox[]
+): BoundingBox | undefined => {
+  const target = scaleBoundingBox(question, DEFAULT_RENDER_SCALE);
+  return boxes
+    .filter(bbox => bbox.type === 'passage' && !bbox.suggested && bbox.page === question.page)
+    .map(bbox => ({ bbox, scaled: scaleBoundingBox(bbox, DEFAULT_RENDER_SCALE) }))
+    .filter(candidate => candidate.scaled.y <= target.y)
+    .sort((a, b) => b.scaled.y - a.scaled.y)[0]?.bbox;
+};
+
+// Unlike figures and solutions there is no automatic fallback: most questions
+// have no passage, so only an explicit link that still points at a passage counts
+export const resolveQuestionPassage = (
+  questionBox: BoundingBox,
+  boxes: BoundingBox[]
+): BoundingBox | undefined => {
+  if (!questionBox.passageId) return undefined;
+  return boxes.find(bbox => bbox.id === questionBox.passageId && bbox.type === 'passage' && !bbox.suggested);
+};
+
+export interface PassageGroup {
+  passage?: Passage;
+  mcqs: MCQ[];
+}
+
+// Consecutive runs of questions sharing a passage, in question order. Questions
+// without a passage (or whose passage was deleted) form groups of their own.
+export const groupMCQsByPassage = (mcqs: MCQ[], passages: Passage[]): PassageGroup[] => {
+  const byId = new Map(passages.map(passage => [passage.id, passage] as [string, Passage]));
+  const groups: PassageGroup[] = [];
+
+  mcqs.forEach(mcq => {
+    const passage = mcq.passageId ? byId.get(mcq.passageId) : undefined;
+    const last = groups[groups.length - 1];
+    if (passage && last && last.passage === passage) {
+      last.mcqs.push(mcq);
+    } else {
+      groups.push({ passage, mcqs: [mcq] });
+    }
+  });
+
+  return groups;
+};
@@ -1,10 +1,35 @@
 import * as pdfjsLib from 'pdfjs-dist';
+import type { BoundingBox, BoxRegion } from './types';
 
 // Set up PDF.js worker
 if (typeof window !== 'undefined') {
   pdfjsLib.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js`;
 }
 
+// Scale used by the viewer and for boxes that predate per-box scale tracking
+export const DEFAULT_RENDER_SCALE = 1.5;
+
+// PDF user space is 72 units per inch
+export const dpiToScale = (dpi: number): number => dpi / 72;
+
+const scaleRegion = <T extends BoxRegion>(region: T, factor: number): T => ({
+  ...region,
+  x: region.x * factor,
+  y: region.y * factor,
+  width: region.width * factor,
+  height: region.height * factor,
+});
+
+export const scaleBoundingBox = <T extends BoundingBox>(bbox: T, targetScale: number): T => {
+  const factor = targetScale / (bbox.scale ?? DEFAULT_RENDER_SCALE);
+  return {
+    ...scaleRegion(bbox, factor),
+    scale: targetScale,
+    ...(bbox.continuations ? { continuations: bbox.continuations.map(region => scaleRegion(region, factor)) } : {}),
+    ...(bbox.stitchedFrom ? { stitchedFrom: bbox.stitchedFrom.map(region => scaleRegion(region, factor)) } : {}),
+  };
+};
+
 export const loadPDF = async (file: File): Promise<pdfjsLib.PDFDocumentProxy> => {
   const arrayBuffer = await file.arrayBuffer();
   return await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
@@ -14,7 +39,7 @@ export const renderPage = async (
   pdf: pdfjsLib.PDFDocumentProxy, 
   pageNumber: number, 
   canvas: HTMLCanvasElement,
-  scale: number = 1.5
+  scale: number = DEFAULT_RENDER_SCALE
 ): Promise<void> => {
   const page = await pdf.getPage(pageNumber);
   const viewport = page.getViewport({ scale });
@@ -49,7 +74,7 @@ export const extractTextFromBoundingBox = async (
   pdf: pdfjsLib.PDFDocumentProxy,
   pageNumber: number,
   bbox: { x: number; y: number; width: number; height: number },
-  scale: number = 1.5
+  scale: number = DEFAULT_RENDER_SCALE
 ): Promise<string> => {
   const page = await pdf.getPage(pageNumber);
   const viewport = page.getViewport({ scale });
@@ -0,0 +1,182 @@
+// lib/prompt-profiles.ts
+import { extractJSONObject, validateAgainstSchema } from './response-schema';
+import type { Schema } from './response-schema';
+
+// Subject-specific notation rules added to every Gemini extraction prompt
+export interface PromptProfile {
+  id: string;
+  name: string;
+  description: string;
+  // One "- " bullet per line, listed under "Notation:" in the prompt
+  instructions: string;
+  // Shipped with the app; can be copied but not edited or deleted
+  builtIn?: boolean;
+}
+
+// Which profile each page of a project is extracted with
+export interface PromptProfileSelection {
+  defaultId: string;
+  // Pages that need a different subject, e.g. a chemistry section in a science paper
+  pages: Record<number, string>;
+}
+
+export const BUILT_IN_PROMPT_PROFILES: PromptProfile[] = [
+  {
+    id: 'math',
+    name: 'Mathematics',
+    description: 'LaTeX for equations, Greek letters, fractions and scripts',
+    instructions: [
+      '- Preserve mathematical notation using LaTeX format with $ symbols',
+      '- Wrap mathematical expressions in $ symbols (e.g., $x^2 + 3x + 2$)',
+      '- Include Greek letters as LaTeX (e.g., $\\alpha$, $\\beta$)',
+      '- Preserve fractions as $\\frac{numerator}{denominator}$',
+      '- Keep subscripts as $x_1$ and superscripts as $x^2$',
+      '- Put equations that stand on their own line in $$ symbols (e.g., $$\\frac{d}{dx}x^2 = 2x$$)',
+      '- Never split one LaTeX expression across lines',
+    ].join('\n'),
+    builtIn: true,
+  },
+  {
+    id: 'chemistry',
+    name: 'Chemistry (mhchem)',
+    description: 'Formulas and reactions with the mhchem \\ce command, other maths in LaTeX',
+    instructions: [
+      '- Write chemical formulas, ions and equations with the mhchem \\ce command inside $ symbols (e.g., $\\ce{H2SO4}$, $\\ce{SO4^2-}$, $\\ce{2H2 + O2 -> 2H2O}$)',
+      '- Write equilibrium arrows as <=> and keep state symbols such as (aq) or (g) inside \\ce',
+      '- Wrap other mathematical expressions in $ symbols (e.g., $\\Delta H = -285.8$ kJ/mol)',
+      '- Keep units outside \\ce (e.g., $25\\ \\mathrm{mL}$)',
+      '- Describe structural formulas drawn as diagrams in a few words instead of transcribing them',
+    ].join('\n'),
+    builtIn: true,
+  },
+  {
+    id: 'code',
+    name: 'Programming',
+    description: 'Source code kept verbatim in Markdown code blocks, no LaTeX',
+    instructions: [
+      '- Reproduce source code exactly as printed, keeping indentation, line breaks, case and punctuation',
+      '- Put code that spans several lines in Markdown code fences, with the language when it is known',
+      '- Put short code fragments inside single backticks (e.g., `x += 1`)',
+      '- Do not use LaTeX or $ symbols, and never correct code that looks wrong',
+      '- Keep program output and error messages verbatim',
+    ].join('\n'),
+    builtIn: true,
+  },
+  {
+    id: 'plain-text',
+    name: 'Plain text',
+    description: 'Language and humanities papers: exact text with no markup',
+    instructions: [
+      '- Write plain text only, without LaTeX, Markdown or $ symbols',
+      '- Keep accents, diacritics, punctuation and non-Latin scripts exactly as printed',
+      '- Use Unicode characters for simple symbols (e.g., ², °, →)',
+      '- Keep blanks to be filled in as a run of underscores (e.g., ____)',
+    ].join('\n'),
+    builtIn: true,
+  },
+];
+
+export const DEFAULT_PROMPT_PROFILE = BUILT_IN_PROMPT_PROFILES[0];
+
+export const DEFAULT_PROMPT_PROFILE_SELECTION: PromptProfileSelection = {
+  defaultId: DEFAULT_PROMPT_PROFILE.id,
+  pages: {},
+};
+
+export const createPromptProfileId = (): string =>
+  `profile-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`;
+
+// The built-in profiles followed by the user's own
+export const getPromptLibrary = (custom: PromptProfile[]): PromptProfile[] => [
+  ...BUILT_IN_PROMPT_PROFILES,
+  ...custom.filter(profile => !BUILT_IN_PROMPT_PROFILES.some(builtIn => builtIn.id === profile.id)),
+];
+
+// A deleted profile falls back to the default rather than failing the run
+export const findPromptProfile = (profiles: PromptProfile[], id: string | undefined): PromptProfile => {
+  return profiles.find(profile => profile.id === id) ?? DEFAULT_PROMPT_PROFILE;
+};
+
+export const resolvePagePromptProfile = (
+  profiles: PromptProfile[],
+  selection: PromptProfileSelection,
+  page: number
+): PromptProfile => {
+  return findPromptProfile(profiles, selection.pages[page] ?? selection.defaultId);
+};
+
+const PROMPT_LIBRARY_SCHEMA: Schema = {
+  kind: 'object',
+  fields: {
+    profiles: {
+      kind: 'array',
+      items: {
+        kind: 'object',
+        fields: {
+          id: { kind: 'string', minLength: 1 },
+          name: { kind: 'string', minLength: 1 },
+          description: { kind: 'string' },
+          instructions: { kind: 'string', minLength: 1 },
+        },
+        optional: ['description'],
+      },
+    },
+  },
+};
+
+// Only the user's own profiles are exported; the built-ins ship with every copy
+export const serializePromptLibrary = (profiles: PromptProfile[]): string => {
+  return JSON.stringify({
+    exportDate: new Date().toISOString(),
+    profiles: profiles
+      .filter(profile => !profile.builtIn)
+      .map(({ id, name, description, instructions }) => ({ id, name, description, instructions })),
+  }, null, 2);
+};
+
+// Reads an exported library. Profiles reusing a built-in id get a new one so
+// they can't shadow the built-in.
+export const parsePromptLibrary = (text: string): PromptProfile[] => {
+  const parsed = extractJSONObject(text);
+  if (!parsed.success) {
+    throw new Error(`Not a prompt library: ${parsed.error}`);
+  }
+
+  const validated = validateAgainstSchema<{ profiles: PromptProfile[] }>(parsed.data, PROMPT_LIBRARY_SCHEMA);
+  if (!validated.success) {
+    throw new Error(`Not a prompt library: ${validated.error}`);
+  }
+
+  return validated.data.profiles.map(({ id, name, description, instructions }) => ({
+    id: BUILT_IN_PROMPT_PROFILES.some(builtIn => builtIn.id === id) ? createPromptProfileId() : id,
+    name,
+    description: description ?? '',
+    instructions,
+  }));
+};
+
+// For the server APIs and the batch script: custom profiles in the exported
+// library format, and a selection whose ids must all exist
+export const parsePromptProfileRequest = (
+  profiles: unknown,
+  selection: unknown
+): { promptProfiles: PromptProfile[]; promptProfileSelection: PromptProfileSelection } => {
+  const promptProfiles = getPromptLibrary(
+    profiles === undefined ? [] : parsePromptLibrary(JSON.stringify({ profiles }))
+  );
+  if (selection === undefined) {
+    return { promptProfiles, promptProfileSelection: DEFAULT_PROMPT_PROFILE_SELECTION };
+  }
+
+  const { defaultId, pages = {} } = (selection ?? {}) as Partial<PromptProfileSelection>;
+  if (typeof defaultId !== 'string' || typeof pages !== 'object' || pages === null) {
+    throw new Error('promptProfileSelection needs a defaultId and an optional pages object');
+  }
+
+  const unknownId = [defaultId, ...Object.values(pages)].find(id => !promptProfiles.some(profile => profile.id === id));
+  if (unknownId !== undefined) {
+    throw new Error(`Unknown prompt profile "${unknownId}". Expected one of: ${promptProfiles.map(profile => profile.id).join(', ')}`);
+  }
+
+  return { promptProfiles, promptProfileSelection: { defaultId, pages } };
+};
@@ -0,0 +1,250 @@
+// lib/question-types.ts
+import type { MCQ, MCQExtractionResult, QuestionType } from './types';
+
+export interface QuestionTypeInfo {
+  id: QuestionType;
+  name: string;
+  description: string;
+  // Whether answer choices are read from option boxes
+  usesOptionBoxes: boolean;
+}
+
+export const QUESTION_TYPES: Record<QuestionType, QuestionTypeInfo> = {
+  single: {
+    id: 'single',
+    name: 'Single answer',
+    description: 'One correct option',
+    usesOptionBoxes: true
+  },
+  multiple: {
+    id: 'multiple',
+    name: 'Multiple select',
+    description: 'Any number of correct options',
+    usesOptionBoxes: true
+  },
+  'true-false': {
+    id: 'true-false',
+    name: 'True / False',
+    description: 'A statement that is either true or false; no option boxes needed',
+    usesOptionBoxes: false
+  },
+  numeric: {
+    id: 'numeric',
+    name: 'Numeric entry',
+    description: 'Answered with a number, optionally within a tolerance; no option boxes needed',
+    usesOptionBoxes: false
+  },
+  match: {
+    id: 'match',
+    name: 'Match the following',
+    description: 'Two columns whose items are paired up; draw one box around both columns',
+    usesOptionBoxes: false
+  },
+  'assertion-reason': {
+    id: 'assertion-reason',
+    name: 'Assertion-Reason',
+    description: 'An assertion and a reason judged with the standard four choices',
+    usesOptionBoxes: true
+  }
+};
+
+export const TRUE_FALSE_OPTIONS = ['True', 'False'];
+
+// Printed so consistently that papers which omit them can still be answered
+export const ASSERTION_REASON_OPTIONS = [
+  'Both A and R are true and R is the correct explanation of A',
+  'Both A and R are true but R is not the correct explanation of A',
+  'A is true but R is false',
+  'A is false but R is true'
+];
+
+export const getQuestionType = (mcq: Pick<MCQ, 'questionType'>): QuestionType => mcq.questionType ?? 'single';
+
+export const optionLabel = (index: number): string => String.fromCharCode(65 + index);
+
+// "Assertion (A): ... Reason (R): ..." as printed in the question, with whatever
+// stem comes before the assertion
+export const splitAssertionReason = (
+  text: string
+): { stem: string; assertion: string; reason: string } | null => {
+  const match = /^([\s\S]*?)\bassertion\s*(?:\(\s*a\s*\))?\s*[:.\-]?\s*([\s\S]+?)\s*\breason\s*(?:\(\s*r\s*\))?\s*[:.\-]?\s*([\s\S]+)$/i.exec(text);
+  if (!match) return null;
+  return { stem: match[1].trim(), assertion: match[2].trim(), reason: match[3].trim() };
+};
+
+// Shapes a provider's result into the fields its question type uses. Gemini
+// returns most of them directly; the offline providers only read plain text.
+export const applyQuestionType = (mcq: MCQ, result: MCQExtractionResult, questionType: QuestionType): MCQ => {
+  if (questionType === 'single') return mcq;
+
+  const typed: MCQ = { ...mcq, questionType };
+
+  switch (questionType) {
+    case 'multiple':
+      break;
+    case 'true-false':
+      typed.options = TRUE_FALSE_OPTIONS;
+      typed.optionLabels = undefined;
+      break;
+    case 'numeric':
+      typed.options = [];
+      typed.optionLabels = undefined;
+      break;
+    case 'match':
+      // Offline providers can't tell the columns apart, so they are left for the editor
+      typed.options = [];
+      typed.optionLabels = undefined;
+      typed.matchLeft = result.matchLeft ?? [];
+      typed.matchRight = result.matchRight ?? [];
+      typed.matchPairs = [];
+      break;
+    case 'assertion-reason': {
+      const split = result.assertion !== undefined
+        ? { stem: result.question, assertion: result.assertion, reason: result.reason ?? '' }
+        : splitAssertionReason(result.question);
+      if (split) {
+        typed.question = split.stem;
+        typed.assertion = split.assertion;
+        typed.reason = split.reason;
+      }
+      if (typed.options.length === 0) {
+        typed.options = ASSERTION_REASON_OPTIONS;
+        typed.optionLabels = undefined;
+      }
+      break;
+    }
+  }
+
+  return typed;
+};
+
+// Whether an extraction produced enough to be worth keeping
+export const hasQuestionContent = (mcq: MCQ): boolean => {
+  switch (getQuestionType(mcq)) {
+    case 'true-false':
+    case 'numeric':
+      return !!mcq.question;
+    case 'match':
+      return !!mcq.question || (mcq.matchLeft ?? []).length > 0;
+    case 'assertion-reason':
+      return !!mcq.assertion || !!mcq.question;
+    default:
+      return !!mcq.question && mcq.options.length > 0;
+  }
+};
+
+// Question text for flat exports such as CSV, with type-specific parts written out
+export const formatQuestionText = (mcq: MCQ): string => {
+  const parts = mcq.question ? [mcq.question] : [];
+
+  switch (getQuestionType(mcq)) {
+    case 'assertion-reason':
+      parts.push(`Assertion (A): ${mcq.assertion ?? ''}`, `Reason (R): ${mcq.reason ?? ''}`);
+      break;
+    case 'match':
+      parts.push(
+        `Column I: ${(mcq.matchLeft ?? []).map((item, index) => `${optionLabel(index)}. ${item}`).join('; ')}`,
+        `Column II: ${(mcq.matchRight ?? []).map((item, index) => `${index + 1}. ${item}`).join('; ')}`
+      );
+      break;
+  }
+
+  return parts.join('\n');
+};
+
+// The answer as text: the correct option's text for single-answer types, and
+// labels for the rest, e.g. "A, C" (as printed, like "ii, iv", when the labels
+// were read), "9.81 ± 0.01" or "A-2, B-1". Labels never contain the separator,
+// unlike option text.
+export const formatCorrectAnswer = (mcq: MCQ): string => {
+  switch (getQuestionType(mcq)) {
+    case 'multiple':
+      return (mcq.correctIndices ?? [])
+        .slice()
+        .sort((a, b) => a - b)
+        .map(index => mcq.optionLabels?.[index] || optionLabel(index))
+        .join(', ');
+    case 'numeric':
+      if (mcq.numericAnswer === undefined) return '';
+      return mcq.numericTolerance
+        ? `${mcq.numericAnswer} ± ${mcq.numericTolerance}`
+        : String(mcq.numericAnswer);
+    case 'match':
+      return (mcq.matchPairs ?? [])
+        .slice()
+        .sort((a, b) => a.left - b.left)
+        .map(pair => `${optionLabel(pair.left)}-${pair.right + 1}`)
+        .join(', ');
+    default:
+      return mcq.correct_answer || '';
+  }
+};
+
+export const isNumericAnswerCorrect = (mcq: MCQ, value: number): boolean => {
+  if (mcq.numericAnswer === undefined) return false;
+  return Math.abs(value - mcq.numericAnswer) <= (mcq.numericTolerance ?? 0);
+};
+
+const keepsOptions = (type: QuestionType): boolean =>
+  type === 'single' || type === 'multiple' || type === 'assertion-reason';
+
+// Converts an MCQ edited as one type into another, keeping whatever still applies
+export const changeQuestionType = (mcq: MCQ, questionType: QuestionType): Partial<MCQ> => {
+  const current = getQuestionType(mcq);
+  const updates: Partial<MCQ> = {
+    questionType: questionType === 'single' ? undefined : questionType,
+    correct_answer: undefined,
+    correctIndices: undefined,
+    numericAnswer: undefined,
+    numericTolerance: undefined,
+    matchLeft: undefined,
+    matchRight: undefined,
+    matchPairs: undefined,
+    assertion: undefined,
+    reason: undefined,
+  };
+
+  // Answers carry over between the option-based types where they still make sense
+  if (keepsOptions(current) && keepsOptions(questionType)) {
+    const correctIndices = mcq.correctIndices ?? [];
+    if (questionType === 'multiple') {
+      const index = mcq.correct_answer ? mcq.options.indexOf(mcq.correct_answer) : -1;
+      updates.correctIndices = current === 'multiple' ? correctIndices : index >= 0 ? [index] : [];
+    } else if (current === 'multiple') {
+      updates.correct_answer = correctIndices.length === 1 ? mcq.options[correctIndices[0]] : undefined;
+    } else {
+      updates.correct_answer = mcq.correct_answer;
+    }
+  } else if (questionType === 'true-false') {
+    updates.options = TRUE_FALSE_OPTIONS;
+    updates.optionLabels = undefined;
+  } else if (questionType === 'assertion-reason') {
+    updates.options = ASSERTION_REASON_OPTIONS;
+    updates.optionLabels = undefined;
+  } else if (!keepsOptions(questionType)) {
+    updates.options = [];
+    updates.optionLabels = undefined;
+  }
+
+  if (questionType === 'match') {
+    updates.matchLeft = mcq.matchLeft ?? [];
+    updates.matchRight = mcq.matchRight ?? [];
+    updates.matchPairs = [];
+  }
+
+  if (questionType === 'assertion-reason') {
+    const split = mcq.assertion !== undefined
+      ? { stem: mcq.question, assertion: mcq.assertion, reason: mcq.reason ?? '' }
+      : splitAssertionReason(mcq.question);
+    if (split) {
+      updates.question = split.stem;
+      updates.assertion = split.assertion;
+      updates.reason = split.reason;
+    }
+  } else if (current === 'assertion-reason' || current === 'match') {
+    // Fold the structured parts back into the text so nothing typed in is lost
+    updates.question = formatQuestionText(mcq);
+  }
+
+  return updates;
+};
@@ -0,0 +1,72 @@
+// lib/rate-limit.ts
+// Server-side only: fixed-window request counters per client, kept in memory.
+import type { NextApiRequest } from 'next';
+
+export interface RateLimitOptions {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  // Epoch ms when the client's current window ends
+  resetAt: number;
+}
+
+interface RateLimitWindow {
+  count: number;
+  resetAt: number;
+}
+
+export interface RateLimiter {
+  readonly options: RateLimitOptions;
+  check(clientId: string): RateLimitResult;
+}
+
+// Expired windows are swept once the table grows past this, so idle clients don't pile up
+const SWEEP_THRESHOLD = 1000;
+
+export const createRateLimiter = (options: RateLimitOptions): RateLimiter => {
+  const windows = new Map<string, RateLimitWindow>();
+
+  const sweep = (now: number) => {
+    windows.forEach((window, clientId) => {
+      if (window.resetAt <= now) windows.delete(clientId);
+    });
+  };
+
+  return {
+    options,
+    check(clientId: string): RateLimitResult {
+      const now = Date.now();
+      if (windows.size > SWEEP_THRESHOLD) sweep(now);
+
+      let window = windows.get(clientId);
+      if (!window || window.resetAt <= now) {
+        window = { count: 0, resetAt: now + options.windowMs };
+        windows.set(clientId, window);
+      }
+
+      if (window.count >= options.limit) {
+        return { allowed: false, remaining: 0, resetAt: window.resetAt };
+      }
+
+      window.count++;
+      return { allowed: true, remaining: options.limit - window.count, resetAt: window.resetAt };
+    },
+  };
+};
+
+// Clients are told apart by the socket address. Behind a reverse proxy that is
+// the proxy's, so with TRUST_PROXY=true the address the proxy appended to
+// X-Forwarded-For is used instead. Earlier entries come from the client and can
+// be anything, so they are never read.
+export const getClientId = (req: NextApiRequest): string => {
+  if (process.env.TRUST_PROXY === 'true') {
+    const forwarded = req.headers['x-forwarded-for'];
+    const lastForwarded = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded)?.split(',').pop()?.trim();
+    if (lastForwarded) return lastForwarded;
+  }
+  return req.socket.remoteAddress || 'unknown';
+};
@@ -0,0 +1,207 @@
+// lib/response-schema.ts
+
+// A deliberately small schema language for checking model JSON output.
+// Each validator returns a list of human-readable errors, which are fed
+// back to the model verbatim when asking it to repair a response.
+
+export type Schema =
+  | { kind: 'string'; minLength?: number }
+  | { kind: 'number'; min?: number; max?: number }
+  | { kind: 'boolean' }
+  | { kind: 'enum'; values: readonly string[] }
+  | { kind: 'array'; items: Schema; minItems?: number; length?: number }
+  | { kind: 'object'; fields: Record<string, Schema>; optional?: readonly string[] };
+
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string };
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const validate = (value: unknown, schema: Schema, path: string): string[] => {
+  switch (schema.kind) {
+    case 'string':
+      if (typeof value !== 'string') return [`${path}: expected string, got ${describe(value)}`];
+      if (schema.minLength && value.trim().length < schema.minLength) return [`${path}: must not be empty`];
+      return [];
+    case 'number':
+      if (typeof value !== 'number' || isNaN(value)) return [`${path}: expected number, got ${describe(value)}`];
+      if (schema.min !== undefined && value < schema.min) return [`${path}: must be at least ${schema.min}`];
+      if (schema.max !== undefined && value > schema.max) return [`${path}: must be at most ${schema.max}`];
+      return [];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path}: expected boolean, got ${describe(value)}`];
+    case 'enum':
+      return typeof value === 'string' && schema.values.includes(value)
+        ? []
+        : [`${path}: expected one of ${schema.values.map(v => `"${v}"`).join(', ')}`];
+    case 'array': {
+      if (!Array.isArray(value)) return [`${path}: expected array, got ${describe(value)}`];
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        return [`${path}: expected at least ${schema.minItems} item(s), got ${value.length}`];
+      }
+      if (schema.length !== undefined && value.length !== schema.length) {
+        return [`${path}: expected exactly ${schema.length} items, got ${value.length}`];
+      }
+      return value.flatMap((item, index) => validate(item, schema.items, `${path}[${index}]`));
+    }
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${path}: expected object, got ${describe(value)}`];
+      }
+      const record = value as Record<string, unknown>;
+      return Object.keys(schema.fields).flatMap(key => {
+        const fieldPath = path ? `${path}.${key}` : key;
+        if (record[key] === undefined || record[key] === null) {
+          return schema.optional?.includes(key) ? [] : [`${fieldPath}: is required`];
+        }
+        return validate(record[key], schema.fields[key], fieldPath);
+      });
+    }
+  }
+};
+
+export const validateAgainstSchema = <T>(value: unknown, schema: Schema): ValidationResult<T> => {
+  const errors = validate(value, schema, '');
+  return errors.length === 0
+    ? { success: true, data: value as T }
+    : { success: false, error: errors.join('; ') };
+};
+
+// Pulls the JSON object out of a model reply, tolerating code fences and
+// surrounding prose, and scanning braces so quoted "}" never ends it early
+export const extractJSONObject = (text: string): ValidationResult<unknown> => {
+  const cleaned = text.replace(/```(?:json)?/g, '');
+  const start = cleaned.indexOf('{');
+  if (start === -1) {
+    return { success: false, error: 'response does not contain a JSON object' };
+  }
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  for (let i = start; i < cleaned.length; i++) {
+    const char = cleaned[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      try {
+        return { success: true, data: JSON.parse(cleaned.slice(start, i + 1)) };
+      } catch (error) {
+        return { success: false, error: `invalid JSON: ${(error as Error).message}` };
+      }
+    }
+  }
+
+  return { success: false, error: 'JSON object is incomplete (response may have been truncated)' };
+};
+
+export const parseAndValidate = <T>(text: string, schema: Schema): ValidationResult<T> => {
+  const parsed = extractJSONObject(text);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error };
+  }
+  return validateAgainstSchema<T>(parsed.data, schema);
+};
+
+// The printed question number and option labels are optional everywhere: many
+// papers have neither, and older cached responses predate them
+const QUESTION_NUMBER_FIELD: Schema = { kind: 'number', min: 0 };
+
+const OPTION_LABELS_FIELD: Schema = { kind: 'array', items: { kind: 'string' } };
+
+export const MCQ_RESPONSE_SCHEMA: Schema = {
+  kind: 'object',
+  fields: {
+    questionNumber: QUESTION_NUMBER_FIELD,
+    question: { kind: 'string', minLength: 1 },
+    options: { kind: 'array', items: { kind: 'string' }, minItems: 1 },
+    optionLabels: OPTION_LABELS_FIELD,
+    hasLatex: { kind: 'boolean' },
+    confidence: { kind: 'number', min: 0, max: 100 },
+  },
+  optional: ['questionNumber', 'optionLabels', 'confidence'],
+};
+
+export interface RegionResponse {
+  regions: Array<{ type: 'question' | 'option'; box_2d: [number, number, number, number] }>;
+}
+
+export const REGION_RESPONSE_SCHEMA: Schema = {
+  kind: 'object',
+  fields: {
+    regions: {
+      kind: 'array',
+      items: {
+        kind: 'object',
+        fields: {
+          type: { kind: 'enum', values: ['question', 'option'] },
+          box_2d: { kind: 'array', items: { kind: 'number', min: 0, max: 1000 }, length: 4 },
+        },
+      },
+    },
+  },
+};
+
+// Shared by every non-single question type; each schema requires only the fields its type uses
+export interface TypedQuestionResponse {
+  questionNumber?: number;
+  question: string;
+  options?: string[];
+  optionLabels?: string[];
+  left?: string[];
+  right?: string[];
+  assertion?: string;
+  reason?: string;
+  hasLatex: boolean;
+  confidence?: number;
+}
+
+export const QUESTION_ONLY_RESPONSE_SCHEMA: Schema = {
+  kind: 'object',
+  fields: {
+    questionNumber: QUESTION_NUMBER_FIELD,
+    question: { kind: 'string', minLength: 1 },
+    hasLatex: { kind: 'boolean' },
+    confidence: { kind: 'number', min: 0, max: 100 },
+  },
+  optional: ['questionNumber', 'confidence'],
+};
+
+export const MATCH_RESPONSE_SCHEMA: Schema = {
+  kind: 'object',
+  fields: {
+    questionNumber: QUESTION_NUMBER_FIELD,
+    question: { kind: 'string' },
+    left: { kind: 'array', items: { kind: 'string', minLength: 1 }, minItems: 1 },
+    right: { kind: 'array', items: { kind: 'string', minLength: 1 }, minItems: 1 },
+    hasLatex: { kind: 'boolean' },
+    confidence: { kind: 'number', min: 0, max: 100 },
+  },
+  optional: ['questionNumber', 'confidence'],
+};
+
+export const ASSERTION_REASON_RESPONSE_SCHEMA: Schema = {
+  kind: 'object',
+  fields: {
+    questionNumber: QUESTION_NUMBER_FIELD,
+    question: { kind: 'string' },
+    assertion: { kind: 'string', minLength: 1 },
+    reason: { kind: 'string', minLength: 1 },
+    options: { kind: 'array', items: { kind: 'string' } },
+    optionLabels: OPTION_LABELS_FIELD,
+    hasLatex: { kind: 'boolean' },
+    confidence: { kind: 'number', min: 0, max: 100 },
+  },
+  optional: ['questionNumber', 'options', 'optionLabels', 'confidence'],
+};
@@ -0,0 +1,152 @@
+// lib/server-extraction.ts
+// Server-side only: builds extraction providers for API routes from request
+// options and environment variables.
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type * as pdfjsLib from 'pdfjs-dist';
+import { EXTRACTION_PROVIDERS, createExtractionProvider } from './extraction-providers';
+import type { ExtractionProvider } from './extraction-providers';
+import { DEFAULT_GEMINI_SETTINGS, GeminiExtractor } from './gemini-utils';
+import type { GeminiSettings } from './gemini-utils';
+import { createRateLimiter, getClientId } from './rate-limit';
+import type { RateLimiter, RateLimitOptions } from './rate-limit';
+import type { ExtractionProviderId, UsageBudget } from './types';
+
+export const GEMINI_UPSTREAM_BASE_URL = 'https://generativelanguage.googleapis.com';
+
+// Requests per client per minute through /api/gemini-proxy
+const DEFAULT_PROXY_RATE_LIMIT = 60;
+const PROXY_RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+// Tokens one extraction job may spend on GEMINI_API_KEY
+const DEFAULT_SERVER_KEY_MAX_TOKENS = 1000000;
+
+export interface GeminiProxyConfig {
+  enabled: boolean;
+  apiKey?: string;
+  rateLimit: RateLimitOptions;
+  // Models the proxy forwards to; a browser can't spend the key on any other
+  models: string[];
+}
+
+// The proxy only turns on when explicitly enabled, so setting GEMINI_API_KEY for
+// /api/extract or the CLI never lets every browser spend it by accident
+export const getGeminiProxyConfig = (): GeminiProxyConfig => {
+  const apiKey = process.env.GEMINI_API_KEY || undefined;
+  return {
+    enabled: process.env.GEMINI_PROXY_ENABLED === 'true' && !!apiKey,
+    apiKey,
+    rateLimit: {
+      limit: Number(process.env.GEMINI_PROXY_RATE_LIMIT) || DEFAULT_PROXY_RATE_LIMIT,
+      windowMs: PROXY_RATE_LIMIT_WINDOW_MS,
+    },
+    // GEMINI_PROXY_MODELS is a comma-separated list; by default only the server's model
+    models: (process.env.GEMINI_PROXY_MODELS || getServerGeminiSettings().model)
+      .split(',')
+      .map(model => model.trim())
+      .filter(Boolean),
+  };
+};
+
+export interface ServerKeyRateLimit {
+  allowed: boolean;
+  limit: number;
+  retryAfterSeconds: number;
+}
+
+let serverKeyLimiter: RateLimiter | null = null;
+
+// One counter per client across every route that spends GEMINI_API_KEY on its
+// behalf. Sets the X-RateLimit headers, and Retry-After once the client is over.
+export const checkServerKeyRateLimit = (req: NextApiRequest, res: NextApiResponse): ServerKeyRateLimit => {
+  const { rateLimit } = getGeminiProxyConfig();
+  // Rebuilt if the limit is changed while the server runs (e.g. in dev)
+  if (!serverKeyLimiter || serverKeyLimiter.options.limit !== rateLimit.limit) {
+    serverKeyLimiter = createRateLimiter(rateLimit);
+  }
+
+  const rate = serverKeyLimiter.check(getClientId(req));
+  res.setHeader('X-RateLimit-Limit', rateLimit.limit);
+  res.setHeader('X-RateLimit-Remaining', rate.remaining);
+
+  const retryAfterSeconds = Math.max(1, Math.ceil((rate.resetAt - Date.now()) / 1000));
+  if (!rate.allowed) {
+    res.setHeader('Retry-After', retryAfterSeconds);
+  }
+  return { allowed: rate.allowed, limit: rateLimit.limit, retryAfterSeconds };
+};
+
+export interface ServerProviderOptions {
+  provider?: unknown;
+  apiKey?: string;
+}
+
+export const isProviderId = (value: unknown): value is ExtractionProviderId =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(EXTRACTION_PROVIDERS, value);
+
+export const getServerGeminiSettings = (overrides?: Partial<GeminiSettings>): GeminiSettings => ({
+  ...DEFAULT_GEMINI_SETTINGS,
+  ...(process.env.GEMINI_MODEL ? { model: process.env.GEMINI_MODEL } : {}),
+  ...(process.env.GEMINI_BASE_URL ? { baseUrl: process.env.GEMINI_BASE_URL } : {}),
+  ...overrides,
+});
+
+// Resolves the provider before any PDF work, so bad requests fail fast with a 400
+export const resolveServerProvider = (
+  options: ServerProviderOptions
+): { providerId: ExtractionProviderId; geminiKey?: string; usesServerKey: boolean } => {
+  const providerId = options.provider ?? process.env.EXTRACTION_PROVIDER ?? 'hybrid';
+  if (!isProviderId(providerId)) {
+    throw new Error(`Unknown provider "${providerId}". Expected one of: ${Object.keys(EXTRACTION_PROVIDERS).join(', ')}`);
+  }
+
+  const geminiKey = options.apiKey || process.env.GEMINI_API_KEY || undefined;
+  if (providerId === 'gemini' && !geminiKey) {
+    throw new Error('Gemini requires an apiKey in the request or GEMINI_API_KEY on the server');
+  }
+
+  return { providerId, geminiKey, usesServerKey: !options.apiKey && !!geminiKey };
+};
+
+// Gemini settings sent to an API route. A request never sets baseUrl, or the
+// server would send the key to any host the caller names; with the server's
+// own key the model is the server's choice as well.
+export const parseRequestSettings = (settings: unknown, usesServerKey: boolean): Partial<GeminiSettings> => {
+  if (!settings || typeof settings !== 'object') return {};
+  const { model, temperature, maxOutputTokens } = settings as Partial<GeminiSettings>;
+  return {
+    ...(!usesServerKey && typeof model === 'string' && model ? { model } : {}),
+    ...(typeof temperature === 'number' && isFinite(temperature) ? { temperature } : {}),
+    ...(typeof maxOutputTokens === 'number' && maxOutputTokens > 0 ? { maxOutputTokens } : {}),
+  };
+};
+
+// Keeps only positive limits; anything else in a request budget is ignored. A
+// job on the server's own key is always capped at SERVER_KEY_MAX_TOKENS, so no
+// caller can queue an unbounded run against it.
+export const parseRequestBudget = (budget: unknown, usesServerKey: boolean): UsageBudget => {
+  const { maxTokens, maxCostUsd } = (budget && typeof budget === 'object' ? budget : {}) as UsageBudget;
+  const requested: UsageBudget = {
+    ...(typeof maxTokens === 'number' && maxTokens > 0 ? { maxTokens } : {}),
+    ...(typeof maxCostUsd === 'number' && maxCostUsd > 0 ? { maxCostUsd } : {}),
+  };
+  if (!usesServerKey) return requested;
+
+  const cap = Number(process.env.SERVER_KEY_MAX_TOKENS) || DEFAULT_SERVER_KEY_MAX_TOKENS;
+  return { ...requested, maxTokens: Math.min(requested.maxTokens ?? cap, cap) };
+};
+
+// Without a Gemini key, hybrid falls back to Tesseract for its vision path
+export const createServerProvider = (
+  providerId: ExtractionProviderId,
+  pdf: pdfjsLib.PDFDocumentProxy,
+  geminiKey?: string,
+  settings?: Partial<GeminiSettings>
+): { provider: ExtractionProvider; geminiExtractor: GeminiExtractor | null } => {
+  const geminiExtractor = geminiKey
+    ? new GeminiExtractor(geminiKey, { settings: getServerGeminiSettings(settings) })
+    : null;
+  return {
+    provider: createExtractionProvider(providerId, { geminiExtractor, pdf }),
+    geminiExtractor,
+  };
+};
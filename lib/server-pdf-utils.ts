@@ -0,0 +1,56 @@
+// lib/server-pdf-utils.ts
+// Server-side only: loads PDFs stored by /api/upload and renders them with
+// node-canvas so the browser extraction providers can run in API routes.
+import fs from 'fs';
+import path from 'path';
+import * as pdfjsLib from 'pdfjs-dist/legacy/build/pdf';
+import { setCanvasFactory } from './canvas-utils';
+
+export const UPLOAD_DIR = path.join(process.cwd(), 'uploads');
+
+// pdf.js needs the standard fonts on disk for PDFs that don't embed theirs
+const STANDARD_FONT_DATA_URL = path.join(process.cwd(), 'node_modules', 'pdfjs-dist', 'standard_fonts') + path.sep;
+
+let canvasFactoryInstalled = false;
+
+export const installNodeCanvas = (): void => {
+  if (canvasFactoryInstalled) return;
+
+  // node-canvas is a native module, so it is only loaded once something needs to render
+  const { createCanvas: createNodeCanvas }: typeof import('canvas') = require('canvas');
+
+  // node-canvas matches the parts of HTMLCanvasElement the extractors use
+  setCanvasFactory((width, height) => createNodeCanvas(width, height) as unknown as HTMLCanvasElement);
+  canvasFactoryInstalled = true;
+};
+
+// The names formidable gives uploads: a lowercase id, then the original file's
+// extension made of letters, digits and dots. "." and ".." never match.
+const UPLOAD_FILE_ID = /^[a-z0-9]+[.a-zA-Z0-9]*$/;
+
+export const resolveUploadPath = (fileId: string): string => {
+  // Anything else could escape the upload directory or read an upload's .json info file
+  if (typeof fileId !== 'string' || !UPLOAD_FILE_ID.test(fileId) || fileId.endsWith('.json')) {
+    throw new Error(`Invalid file ID: ${fileId}`);
+  }
+
+  const filePath = path.join(UPLOAD_DIR, fileId);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`File not found: ${fileId}`);
+  }
+  return filePath;
+};
+
+export const loadStoredPDF = async (fileId: string): Promise<pdfjsLib.PDFDocumentProxy> => {
+  return loadPDFFromPath(resolveUploadPath(fileId));
+};
+
+export const loadPDFFromPath = async (filePath: string): Promise<pdfjsLib.PDFDocumentProxy> => {
+  const data = new Uint8Array(fs.readFileSync(filePath));
+  return await pdfjsLib.getDocument({
+    data,
+    standardFontDataUrl: STANDARD_FONT_DATA_URL,
+    // There is no FontFace API in Node, so glyphs are drawn as paths
+    disableFontFace: true,
+  }).promise;
+};
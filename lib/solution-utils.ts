@@ -0,0 +1,40 @@
+// lib/solution-utils.ts
+import { DEFAULT_RENDER_SCALE, scaleBoundingBox } from './pdf-utils';
+import type { BoundingBox } from './types';
+
+// Worked solutions usually follow their question, so the closest question above
+// wins; otherwise the closest question on the page. Solutions printed on a page
+// without questions (a solutions section) have to be linked by hand.
+export const findSolutionParent = (
+  solution: BoundingBox,
+  boxes: BoundingBox[]
+): BoundingBox | undefined => {
+  const target = scaleBoundingBox(solution, DEFAULT_RENDER_SCALE);
+  const questions = boxes
+    .filter(bbox => bbox.type === 'question' && !bbox.suggested && bbox.page === solution.page)
+    .map(bbox => ({ bbox, scaled: scaleBoundingBox(bbox, DEFAULT_RENDER_SCALE) }));
+
+  const above = questions
+    .filter(candidate => candidate.scaled.y <= target.y)
+    .sort((a, b) => b.scaled.y - a.scaled.y)[0];
+  if (above) return above.bbox;
+
+  return questions
+    .sort((a, b) => Math.abs(a.scaled.y - target.y) - Math.abs(b.scaled.y - target.y))[0]?.bbox;
+};
+
+export const resolveSolutionParentId = (solution: BoundingBox, boxes: BoundingBox[]): string | undefined => {
+  if (solution.parentId && boxes.some(bbox => bbox.id === solution.parentId && bbox.type === 'question')) {
+    return solution.parentId;
+  }
+  return findSolutionParent(solution, boxes)?.id;
+};
+
+// A solution split across a page break is drawn as several boxes; they are read in page order
+export const getQuestionSolutions = (questionBox: BoundingBox, boxes: BoundingBox[]): BoundingBox[] => {
+  return boxes
+    .filter(bbox => bbox.type === 'solution' && !bbox.suggested)
+    .filter(bbox => resolveSolutionParentId(bbox, boxes) === questionBox.id)
+    .sort((a, b) => a.page - b.page ||
+      scaleBoundingBox(a, DEFAULT_RENDER_SCALE).y - scaleBoundingBox(b, DEFAULT_RENDER_SCALE).y);
+};
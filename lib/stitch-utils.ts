@@ -0,0 +1,69 @@
+// lib/stitch-utils.ts
+import { createCanvas, cropCanvas } from './canvas-utils';
+import { PageRenderer } from './page-renderer';
+import { scaleBoundingBox } from './pdf-utils';
+import type { BoundingBox, BoxRegion } from './types';
+
+// White space left between stitched pieces so the model sees where each one ends
+const STITCH_GAP = 12;
+
+export const hasContinuations = (bbox: BoundingBox): boolean => (bbox.continuations ?? []).length > 0;
+
+// The box itself followed by the regions it continues into
+export const getBoxRegions = (bbox: BoundingBox): BoxRegion[] => [
+  { page: bbox.page, x: bbox.x, y: bbox.y, width: bbox.width, height: bbox.height },
+  ...(bbox.continuations ?? []),
+];
+
+// Crops every region of every box at the renderer's scale and stacks them top to
+// bottom on one canvas, in the order given. The returned boxes point at their
+// stacked pieces and remember the page regions they came from.
+export const stitchBoxes = async (
+  renderer: PageRenderer,
+  boxes: BoundingBox[]
+): Promise<{ canvas: HTMLCanvasElement; boxes: BoundingBox[] }> => {
+  const pieces: Array<{ crops: HTMLCanvasElement[]; regions: BoxRegion[] }> = [];
+
+  for (const bbox of boxes) {
+    const scaled = scaleBoundingBox(bbox, renderer.scale);
+    const regions = getBoxRegions(scaled);
+    const crops: HTMLCanvasElement[] = [];
+    for (const region of regions) {
+      const pageCanvas = await renderer.getPageCanvas(region.page);
+      crops.push(cropCanvas(pageCanvas, { ...scaled, ...region }));
+    }
+    pieces.push({ crops, regions });
+  }
+
+  const allCrops = pieces.flatMap(piece => piece.crops);
+  const width = Math.max(...allCrops.map(crop => crop.width));
+  const height = allCrops.reduce((total, crop) => total + crop.height, 0) + STITCH_GAP * (allCrops.length - 1);
+
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = 'white';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  let top = 0;
+  const stitched = boxes.map((bbox, index) => {
+    const { crops, regions } = pieces[index];
+    const start = top;
+    crops.forEach(crop => {
+      ctx.drawImage(crop, 0, top);
+      top += crop.height + STITCH_GAP;
+    });
+
+    const { continuations, ...rest } = bbox;
+    return {
+      ...rest,
+      x: 0,
+      y: start,
+      width: Math.max(...crops.map(crop => crop.width)),
+      height: top - STITCH_GAP - start,
+      scale: renderer.scale,
+      stitchedFrom: regions,
+    };
+  });
+
+  return { canvas, boxes: stitched };
+};
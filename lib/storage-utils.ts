@@ -1,4 +1,12 @@
 // lib/storage-utils.ts
+import { getExportBaseName, serializeMCQsAsCSV, serializeMCQsAsJSON } from './export-utils';
+import { DEFAULT_GEMINI_SETTINGS } from './gemini-utils';
+import type { GeminiSettings } from './gemini-utils';
+import type { LabelStyle } from './label-utils';
+import { DEFAULT_PROMPT_PROFILE_SELECTION, serializePromptLibrary } from './prompt-profiles';
+import type { PromptProfile, PromptProfileSelection } from './prompt-profiles';
+import { addUsage, emptyUsage } from './usage-utils';
+import type { TokenUsage } from './types';
 
 export interface StoredFile {
   id: string;
@@ -14,11 +22,31 @@ export interface StoredMCQData {
   timestamp: number;
   mcqs: any[];
   boundingBoxes: any[];
+  passages?: any[];
+  // Everything spent on this file across all runs so far
+  usage?: TokenUsage;
+}
+
+// An extraction that has not finished yet; results are added as each question completes
+export interface StoredExtractionRun {
+  fileId: string;
+  fileName: string;
+  timestamp: number;
+  provider: string;
+  dpi: number;
+  boundingBoxes: any[];
+  mcqs: any[];
+  passages?: any[];
 }
 
 export class LocalStorage {
   private static readonly FILES_KEY = 'mcq_tool_files';
   private static readonly MCQ_DATA_KEY = 'mcq_tool_data';
+  private static readonly EXTRACTION_RUN_KEY = 'mcq_tool_extraction_run';
+  private static readonly GEMINI_SETTINGS_KEY = 'mcq_tool_gemini_settings';
+  private static readonly USAGE_KEY = 'mcq_tool_usage';
+  private static readonly PROMPT_PROFILES_KEY = 'mcq_tool_prompt_profiles';
+  private static readonly PROMPT_SELECTIONS_KEY = 'mcq_tool_prompt_selections';
   private static readonly MAX_STORAGE_SIZE = 500 * 1024 * 1024; // 500MB
 
   // File Management
@@ -94,13 +122,22 @@ export class LocalStorage {
       
       // Also remove associated MCQ data
       this.deleteMCQData(fileId);
+
+      const allUsage = this.getAllProjectUsage();
+      delete allUsage[fileId];
+      localStorage.setItem(this.USAGE_KEY, JSON.stringify(allUsage));
+
+      // A run cannot be resumed without its PDF
+      if (this.getExtractionRun()?.fileId === fileId) {
+        this.clearExtractionRun();
+      }
     } catch (error) {
       console.error('Failed to delete file:', error);
     }
   }
 
   // MCQ Data Management
-  static saveMCQData(fileId: string, fileName: string, mcqs: any[], boundingBoxes: any[]): string {
+  static saveMCQData(fileId: string, fileName: string, mcqs: any[], boundingBoxes: any[], passages: any[] = []): string {
     const dataId = `data_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     
     const mcqData: StoredMCQData = {
@@ -108,7 +145,9 @@ export class LocalStorage {
       fileName,
       timestamp: Date.now(),
       mcqs,
-      boundingBoxes
+      boundingBoxes,
+      passages,
+      usage: this.getProjectUsage(fileId)
     };
 
     try {
@@ -151,6 +190,143 @@ export class LocalStorage {
     }
   }
 
+  // Gemini Settings
+  // Unlike the API key these are not secret, so they persist across sessions
+  static saveGeminiSettings(settings: GeminiSettings): void {
+    try {
+      localStorage.setItem(this.GEMINI_SETTINGS_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.error('Failed to save Gemini settings:', error);
+    }
+  }
+
+  static getGeminiSettings(): GeminiSettings {
+    try {
+      const settings = localStorage.getItem(this.GEMINI_SETTINGS_KEY);
+      return settings ? { ...DEFAULT_GEMINI_SETTINGS, ...JSON.parse(settings) } : DEFAULT_GEMINI_SETTINGS;
+    } catch {
+      return DEFAULT_GEMINI_SETTINGS;
+    }
+  }
+
+  // Usage Tracking
+  static addProjectUsage(fileId: string, usage: TokenUsage): TokenUsage {
+    const allUsage = this.getAllProjectUsage();
+    allUsage[fileId] = addUsage(allUsage[fileId] ?? emptyUsage(), usage);
+
+    try {
+      localStorage.setItem(this.USAGE_KEY, JSON.stringify(allUsage));
+    } catch (error) {
+      console.error('Failed to save usage:', error);
+    }
+    return allUsage[fileId];
+  }
+
+  static getProjectUsage(fileId: string): TokenUsage {
+    return this.getAllProjectUsage()[fileId] ?? emptyUsage();
+  }
+
+  private static getAllProjectUsage(): Record<string, TokenUsage> {
+    try {
+      const usage = localStorage.getItem(this.USAGE_KEY);
+      return usage ? JSON.parse(usage) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  // Prompt Profiles
+  // Only the user's own profiles are stored; the built-in ones come with the app
+  static saveCustomPromptProfiles(profiles: PromptProfile[]): void {
+    try {
+      localStorage.setItem(this.PROMPT_PROFILES_KEY, JSON.stringify(profiles.filter(profile => !profile.builtIn)));
+    } catch (error) {
+      console.error('Failed to save prompt profiles:', error);
+    }
+  }
+
+  static getCustomPromptProfiles(): PromptProfile[] {
+    try {
+      const profiles = localStorage.getItem(this.PROMPT_PROFILES_KEY);
+      return profiles ? JSON.parse(profiles) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  static savePromptProfileSelection(fileId: string, selection: PromptProfileSelection): void {
+    const allSelections = this.getAllPromptProfileSelections();
+    allSelections[fileId] = selection;
+
+    try {
+      localStorage.setItem(this.PROMPT_SELECTIONS_KEY, JSON.stringify(allSelections));
+    } catch (error) {
+      console.error('Failed to save prompt profile selection:', error);
+    }
+  }
+
+  static getPromptProfileSelection(fileId: string): PromptProfileSelection {
+    return this.getAllPromptProfileSelections()[fileId] ?? DEFAULT_PROMPT_PROFILE_SELECTION;
+  }
+
+  private static getAllPromptProfileSelections(): Record<string, PromptProfileSelection> {
+    try {
+      const selections = localStorage.getItem(this.PROMPT_SELECTIONS_KEY);
+      return selections ? JSON.parse(selections) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  // Extraction Run Management
+  // Throws when the run doesn't fit, e.g. once figure data URLs fill the quota,
+  // so the caller can tell the user their progress won't survive a reload
+  static saveExtractionRun(run: StoredExtractionRun): void {
+    try {
+      localStorage.setItem(this.EXTRACTION_RUN_KEY, JSON.stringify(run));
+    } catch (error) {
+      console.error('Failed to save extraction run:', error);
+      throw new Error('Failed to save extraction progress');
+    }
+  }
+
+  static getExtractionRun(): StoredExtractionRun | null {
+    try {
+      const run = localStorage.getItem(this.EXTRACTION_RUN_KEY);
+      return run ? JSON.parse(run) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Called once per finished question so a closed tab loses at most the questions in flight
+  static saveExtractionRunResult(mcq: any): void {
+    const run = this.getExtractionRun();
+    if (!run) return;
+
+    this.saveExtractionRun({
+      ...run,
+      timestamp: Date.now(),
+      mcqs: [...run.mcqs.filter(m => m.id !== mcq.id), mcq]
+    });
+  }
+
+  // Passages are shared by several questions and saved once, when the first of them finishes
+  static saveExtractionRunPassage(passage: any): void {
+    const run = this.getExtractionRun();
+    if (!run) return;
+
+    this.saveExtractionRun({
+      ...run,
+      timestamp: Date.now(),
+      passages: [...(run.passages ?? []).filter(p => p.id !== passage.id), passage]
+    });
+  }
+
+  static clearExtractionRun(): void {
+    localStorage.removeItem(this.EXTRACTION_RUN_KEY);
+  }
+
   // Utility Methods
   private static async fileToBase64(file: File): Promise<string> {
     return new Promise((resolve, reject) => {
@@ -205,51 +381,37 @@ export class LocalStorage {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   }
 
-  static exportMCQAsJSON(mcqs: any[], fileName: string): void {
-    const dataStr = JSON.stringify({
-      exportDate: new Date().toISOString(),
-      fileName: fileName,
-      totalQuestions: mcqs.length,
-      mcqs: mcqs
-    }, null, 2);
-    
-    const dataBlob = new Blob([dataStr], { type: 'application/json' });
-    const url = URL.createObjectURL(dataBlob);
-    
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `${fileName.replace('.pdf', '')}_mcqs_${Date.now()}.json`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+  static exportMCQAsJSON(mcqs: any[], fileName: string, passages: any[] = [], labelStyle?: LabelStyle): void {
+    this.downloadFile(
+      serializeMCQsAsJSON(mcqs, fileName, passages, labelStyle),
+      'application/json',
+      `${getExportBaseName(fileName)}_mcqs_${Date.now()}.json`
+    );
   }
 
-  static exportMCQAsCSV(mcqs: any[], fileName: string): void {
-    const headers = ['Question', 'Option A', 'Option B', 'Option C', 'Option D', 'Option E', 'Correct Answer', 'Page'];
-    const csvRows = [headers.join(',')];
-    
-    mcqs.forEach(mcq => {
-      const row = [
-        `"${mcq.question.replace(/"/g, '""')}"`,
-        `"${(mcq.options[0] || '').replace(/"/g, '""')}"`,
-        `"${(mcq.options[1] || '').replace(/"/g, '""')}"`,
-        `"${(mcq.options[2] || '').replace(/"/g, '""')}"`,
-        `"${(mcq.options[3] || '').replace(/"/g, '""')}"`,
-        `"${(mcq.options[4] || '').replace(/"/g, '""')}"`,
-        `"${(mcq.correct_answer || '').replace(/"/g, '""')}"`,
-        mcq.page
-      ];
-      csvRows.push(row.join(','));
-    });
-    
-    const csvContent = csvRows.join('\n');
-    const dataBlob = new Blob([csvContent], { type: 'text/csv' });
+  static exportMCQAsCSV(mcqs: any[], fileName: string, passages: any[] = [], labelStyle?: LabelStyle): void {
+    this.downloadFile(
+      serializeMCQsAsCSV(mcqs, passages, labelStyle),
+      'text/csv',
+      `${getExportBaseName(fileName)}_mcqs_${Date.now()}.csv`
+    );
+  }
+
+  static exportPromptLibrary(profiles: PromptProfile[]): void {
+    this.downloadFile(
+      serializePromptLibrary(profiles),
+      'application/json',
+      `prompt_profiles_${Date.now()}.json`
+    );
+  }
+
+  private static downloadFile(content: string, type: string, downloadName: string): void {
+    const dataBlob = new Blob([content], { type });
     const url = URL.createObjectURL(dataBlob);
-    
+
     const link = document.createElement('a');
     link.href = url;
-    link.download = `${fileName.replace('.pdf', '')}_mcqs_${Date.now()}.csv`;
+    link.download = downloadName;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
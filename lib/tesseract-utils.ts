@@ -0,0 +1,103 @@
+// lib/tesseract-utils.ts
+import { createWorker } from 'tesseract.js';
+import type { Worker } from 'tesseract.js';
+import { cropCanvas } from './canvas-utils';
+import { detectLatex } from './latex-utils';
+import { collectOptionLabels, normalizeWhitespace, splitOptionLabel, stripSolutionLabel } from './text-utils';
+import type { ExtractionProvider } from './extraction-providers';
+import type {
+  BoundingBox,
+  ExtractionType,
+  MCQExtractionResult,
+  TextExtractionResult
+} from './types';
+
+export class TesseractExtractor implements ExtractionProvider {
+  readonly id = 'tesseract' as const;
+  private workerPromise: Promise<Worker> | null = null;
+
+  constructor(private readonly language: string = 'eng') {}
+
+  isInitialized(): boolean {
+    // Tesseract runs locally and needs no credentials
+    return true;
+  }
+
+  async extractTextFromCanvas(
+    canvas: HTMLCanvasElement,
+    bbox: BoundingBox,
+    extractionType: ExtractionType = 'question'
+  ): Promise<TextExtractionResult> {
+    try {
+      const worker = await this.getWorker();
+      const crop = cropCanvas(canvas, bbox);
+      // tesseract.js under Node reads buffers and data URLs but not node-canvas objects
+      const { data } = await worker.recognize(typeof document === 'undefined' ? crop.toDataURL('image/png') : crop);
+
+      let text = normalizeWhitespace(data.text);
+      let label: string | undefined;
+      if (extractionType === 'option') {
+        ({ label, text } = splitOptionLabel(text));
+      } else if (extractionType === 'solution') {
+        text = stripSolutionLabel(text);
+      }
+
+      return {
+        text,
+        confidence: Math.round(data.confidence),
+        hasLatex: detectLatex(text),
+        isQuestion: extractionType === 'question',
+        label,
+        source: 'vision'
+      };
+    } catch (error) {
+      console.error('Tesseract extraction failed:', error);
+      throw new Error(`Tesseract OCR error: ${(error as Error).message}`);
+    }
+  }
+
+  async extractMCQFromCanvas(
+    canvas: HTMLCanvasElement,
+    questionBox: BoundingBox,
+    optionBoxes: BoundingBox[]
+  ): Promise<MCQExtractionResult> {
+    const questionResult = await this.extractTextFromCanvas(canvas, questionBox, 'question');
+
+    const options: string[] = [];
+    const labels: Array<string | undefined> = [];
+    let confidence = questionResult.confidence;
+    for (const optionBox of optionBoxes) {
+      const optionResult = await this.extractTextFromCanvas(canvas, optionBox, 'option');
+      if (optionResult.text) {
+        options.push(optionResult.text);
+        labels.push(optionResult.label);
+      }
+      confidence = Math.min(confidence, optionResult.confidence);
+    }
+
+    return {
+      question: questionResult.text,
+      options,
+      optionLabels: collectOptionLabels(labels),
+      hasLatex: questionResult.hasLatex || options.some(option => detectLatex(option)),
+      confidence,
+      source: 'vision'
+    };
+  }
+
+  async dispose(): Promise<void> {
+    if (this.workerPromise) {
+      const worker = await this.workerPromise;
+      this.workerPromise = null;
+      await worker.terminate();
+    }
+  }
+
+  private getWorker(): Promise<Worker> {
+    // Lazily start a single worker and reuse it for every crop in a run
+    if (!this.workerPromise) {
+      this.workerPromise = createWorker(this.language);
+    }
+    return this.workerPromise;
+  }
+}
@@ -0,0 +1,93 @@
+// lib/text-layer-utils.ts
+import type * as pdfjsLib from 'pdfjs-dist';
+import { DEFAULT_RENDER_SCALE, extractTextFromBoundingBox } from './pdf-utils';
+import { detectLatex } from './latex-utils';
+import { collectOptionLabels, normalizeWhitespace, splitOptionLabel, stripSolutionLabel } from './text-utils';
+import type { ExtractionProvider } from './extraction-providers';
+import type {
+  BoundingBox,
+  ExtractionType,
+  MCQExtractionResult,
+  TextExtractionResult
+} from './types';
+
+export class TextLayerExtractor implements ExtractionProvider {
+  readonly id = 'text-layer' as const;
+
+  constructor(private readonly pdf: pdfjsLib.PDFDocumentProxy | null) {}
+
+  isInitialized(): boolean {
+    return this.pdf !== null;
+  }
+
+  // The canvas is unused: text comes straight from the PDF's embedded text layer
+  async extractTextFromCanvas(
+    _canvas: HTMLCanvasElement,
+    bbox: BoundingBox,
+    extractionType: ExtractionType = 'question'
+  ): Promise<TextExtractionResult> {
+    if (!this.pdf) {
+      throw new Error('No PDF loaded for text-layer extraction.');
+    }
+
+    // A stitched box is read region by region, straight from the pages it was built from
+    const regions = bbox.stitchedFrom ?? [bbox];
+    const texts: string[] = [];
+    for (const region of regions) {
+      texts.push(await extractTextFromBoundingBox(
+        this.pdf,
+        region.page,
+        region,
+        bbox.scale ?? DEFAULT_RENDER_SCALE
+      ));
+    }
+    const rawText = texts.join(' ');
+
+    let text = normalizeWhitespace(rawText);
+    let label: string | undefined;
+    if (extractionType === 'option') {
+      ({ label, text } = splitOptionLabel(text));
+    } else if (extractionType === 'solution') {
+      text = stripSolutionLabel(text);
+    }
+
+    return {
+      text,
+      // Embedded text is exact when present, so confidence only reflects emptiness
+      confidence: text.length > 0 ? 95 : 0,
+      hasLatex: detectLatex(text),
+      isQuestion: extractionType === 'question',
+      label,
+      source: 'text-layer'
+    };
+  }
+
+  async extractMCQFromCanvas(
+    canvas: HTMLCanvasElement,
+    questionBox: BoundingBox,
+    optionBoxes: BoundingBox[]
+  ): Promise<MCQExtractionResult> {
+    const questionResult = await this.extractTextFromCanvas(canvas, questionBox, 'question');
+
+    const options: string[] = [];
+    const labels: Array<string | undefined> = [];
+    let confidence = questionResult.confidence;
+    for (const optionBox of optionBoxes) {
+      const optionResult = await this.extractTextFromCanvas(canvas, optionBox, 'option');
+      if (optionResult.text) {
+        options.push(optionResult.text);
+        labels.push(optionResult.label);
+      }
+      confidence = Math.min(confidence, optionResult.confidence);
+    }
+
+    return {
+      question: questionResult.text,
+      options,
+      optionLabels: collectOptionLabels(labels),
+      hasLatex: questionResult.hasLatex || options.some(option => detectLatex(option)),
+      confidence,
+      source: 'text-layer'
+    };
+  }
+}
@@ -0,0 +1,45 @@
+// lib/text-utils.ts
+
+export const normalizeWhitespace = (text: string): string => {
+  return text
+    .replace(/[ \t]+/g, ' ') // Collapse runs of spaces
+    .replace(/\s*\n\s*/g, '\n') // Trim around line breaks
+    .trim();
+};
+
+// Leading identifiers like "(A)", "a)", "B.", "iv." or "3)"
+const OPTION_LABEL = /^\s*[([]?([a-hA-H]|[ivxIVX]{1,4}|\d{1,2})[)\].:]\s+/;
+
+// The label without its brackets or dot, e.g. "A" or "iv", and the text after it
+export const splitOptionLabel = (text: string): { label?: string; text: string } => {
+  const match = OPTION_LABEL.exec(text);
+  return match
+    ? { label: match[1], text: text.slice(match[0].length).trim() }
+    : { text: text.trim() };
+};
+
+// Labels read for each option, or undefined when none of the options had one
+export const collectOptionLabels = (labels: Array<string | undefined>): string[] | undefined => {
+  return labels.some(label => label) ? labels.map(label => label ?? '') : undefined;
+};
+
+export const stripSolutionLabel = (text: string): string => {
+  // Remove leading headings like "Solution:", "Sol." or "Explanation -"
+  return text
+    .replace(/^\s*(?:solution|sol|explanation|answer|ans)\s*[.:\-)]\s*/i, '')
+    .trim();
+};
+
+export const isGarbledText = (text: string): boolean => {
+  if (!text) return false;
+
+  // pdf.js emits these when a font has no usable Unicode mapping
+  if (/\(cid:\d+\)/.test(text)) return true;
+
+  const replacementChars = (text.match(/[\uFFFD\u0000-\u0008\u000E-\u001F]/g) || []).length;
+  if (replacementChars / text.length > 0.05) return true;
+
+  // Mostly symbols with very few letters or digits usually means broken encoding
+  const readableChars = (text.match(/[A-Za-z0-9\u00C0-\u024F\u0370-\u03FF\s]/g) || []).length;
+  return readableChars / text.length < 0.5;
+};
@@ -1,20 +1,154 @@
+// How a question is answered; 'single' (one correct option) is the default
+export type QuestionType = 'single' | 'multiple' | 'true-false' | 'numeric' | 'match' | 'assertion-reason';
+
+// One correct pairing in a match-the-following question, as indices into its two columns
+export interface MatchPair {
+  left: number;
+  right: number;
+}
+
+export type BoundingBoxType = 'question' | 'option' | 'figure' | 'solution' | 'passage' | 'answer-key';
+
+// One more piece of a box that continues in another column or on another page
+export interface BoxRegion {
+  page: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
 export interface BoundingBox {
   id: string;
   x: number;
   y: number;
   width: number;
   height: number;
-  type: 'question' | 'option';
+  type: BoundingBoxType;
   text?: string;
   page: number;
+  // Render scale the coordinates were captured at (defaults to DEFAULT_RENDER_SCALE)
+  scale?: number;
+  // Proposed by auto-detection and not yet accepted by the user
+  suggested?: boolean;
+  // Question boxes only: selects the extraction prompt and editor (defaults to 'single')
+  questionType?: QuestionType;
+  // Question boxes only: the passage box the question is read with
+  passageId?: string;
+  // Questions, options and passages: further regions, in reading order, that the
+  // text continues into. They share the box's scale.
+  continuations?: BoxRegion[];
+  // Set on stitched boxes handed to providers: the page regions the stitched
+  // image was built from, so text can be read from the PDF instead
+  stitchedFrom?: BoxRegion[];
+  // Options: the question box the option belongs to.
+  // Figures: the question or option box the figure belongs to.
+  // Solutions: the question box the worked solution explains.
+  parentId?: string;
 }
 
+// A diagram cropped from the page and stored with its MCQ
+export interface FigureAsset {
+  id: string;
+  page: number;
+  // PNG data URL, so the MCQ stays self-contained in storage and exports
+  dataUrl: string;
+  width: number;
+  height: number;
+  // Set when the figure belongs to one option rather than the question
+  optionIndex?: number;
+}
+
+export type ExtractionProviderId = 'gemini' | 'tesseract' | 'text-layer' | 'hybrid';
+
+// Which path produced the text: the PDF's embedded text layer or an image-based model
+export type ExtractionPath = 'text-layer' | 'vision';
+
+export type ExtractionType = 'question' | 'option' | 'solution' | 'passage';
+
+// Outcome of checking a model response against its schema
+export type ValidationStatus = 'valid' | 'repaired' | 'failed';
+
+export type LayoutDetectorId = 'gemini' | 'heuristic';
+
 export interface MCQ {
   id: string;
+  // The number printed before the question in the paper, kept out of the text
+  questionNumber?: number;
   question: string;
   options: string[];
+  // The labels printed before each option, e.g. "ii" or "3", in the same order as
+  // options; '' where an option had none. Missing when no labels were read.
+  optionLabels?: string[];
   correct_answer?: string;
+  // Missing on single-answer questions, including everything saved before types existed
+  questionType?: QuestionType;
+  // multiple: every correct option, as indices into options
+  correctIndices?: number[];
+  // numeric: the expected value and how far an answer may be from it
+  numericAnswer?: number;
+  numericTolerance?: number;
+  // match: the two printed columns and the correct pairs between them
+  matchLeft?: string[];
+  matchRight?: string[];
+  matchPairs?: MatchPair[];
+  // assertion-reason: the two statements; options holds the choices judging them
+  assertion?: string;
+  reason?: string;
+  // Worked solution, possibly spanning several lines of LaTeX
+  explanation?: string;
+  // The shared passage this question is read with; the text lives in the Passage
+  passageId?: string;
   page: number;
+  provider?: ExtractionProviderId;
+  extractionPath?: ExtractionPath;
+  validationStatus?: ValidationStatus;
+  validationError?: string;
+  // Lowest confidence (0-100) reported for the question or any of its options
+  confidence?: number;
+  figures?: FigureAsset[];
+  // Tokens spent extracting this question, including repair and fallback requests
+  usage?: TokenUsage;
+  // Id of the prompt profile the vision model was prompted with; missing when
+  // no prompt was involved (text layer, Tesseract)
+  promptProfile?: string;
+}
+
+// Comprehension or data-interpretation text shared by several questions
+export interface Passage {
+  // Same as the passage box it was extracted from
+  id: string;
+  text: string;
+  page: number;
+  provider?: ExtractionProviderId;
+  extractionPath?: ExtractionPath;
+  confidence?: number;
+  usage?: TokenUsage;
+}
+
+export type JobStatus = 'pending' | 'running' | 'retrying' | 'succeeded' | 'failed' | 'cancelled';
+
+export type JobQueueState = 'idle' | 'running' | 'paused' | 'cancelling' | 'cancelled' | 'complete';
+
+export interface JobItemStatus {
+  id: string;
+  label: string;
+  status: JobStatus;
+  attempts: number;
+  error?: string;
+  // When a retrying job will next be attempted (epoch ms)
+  retryAt?: number;
+}
+
+export interface ExtractionProgress {
+  current: number;
+  total: number;
+  stage: 'processing' | 'extracting' | 'formatting' | 'complete';
+  currentItem?: string;
+  error?: string;
+  items?: JobItemStatus[];
+  queueState?: JobQueueState;
+  usage?: TokenUsage;
 }
 
 export interface PDFData {
@@ -29,15 +163,96 @@ export interface ExtractionResult {
   confidence: number;
 }
 
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  requests: number;
+  // Requests answered from the local cache, which cost nothing
+  cachedRequests: number;
+  // Estimated from list prices; 0 for models without known pricing
+  costUsd: number;
+}
+
+export interface UsageBudget {
+  maxTokens?: number;
+  maxCostUsd?: number;
+}
+
+export interface TextExtractionResult {
+  text: string;
+  confidence: number;
+  hasLatex: boolean;
+  isQuestion: boolean;
+  options?: string[];
+  // Options only: the label the text was printed with, e.g. "b" or "iv"
+  label?: string;
+  source?: ExtractionPath;
+  usage?: TokenUsage;
+  promptProfile?: string;
+}
+
+export interface MCQExtractionResult {
+  questionNumber?: number;
+  question: string;
+  options: string[];
+  // Parallel to options, as in MCQ
+  optionLabels?: string[];
+  // Only returned by providers that read the structure of typed questions
+  matchLeft?: string[];
+  matchRight?: string[];
+  assertion?: string;
+  reason?: string;
+  hasLatex: boolean;
+  confidence?: number;
+  source?: ExtractionPath;
+  validationStatus?: ValidationStatus;
+  validationError?: string;
+  usage?: TokenUsage;
+  promptProfile?: string;
+}
+
 export interface UploadResponse {
   success: boolean;
   fileId: string;
   message?: string;
 }
 
+// Lifecycle of a server-side extraction job submitted to /api/jobs
+export type ExtractionJobStatus = 'queued' | 'detecting' | 'extracting' | 'complete' | 'failed' | 'cancelled';
+
+export interface ExtractionJobSnapshot {
+  id: string;
+  fileId: string;
+  status: ExtractionJobStatus;
+  provider: ExtractionProviderId;
+  progress: ExtractionProgress | null;
+  // Filled in as soon as the job finishes, including partial results when cancelled
+  mcqs?: MCQ[];
+  passages?: Passage[];
+  usage?: TokenUsage;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface JobSubmitResponse {
+  success: boolean;
+  jobId?: string;
+  statusUrl?: string;
+  eventsUrl?: string;
+  message?: string;
+  // Set when part of the budget can't be enforced for the job's model
+  budgetWarning?: string;
+}
+
 export interface ExtractResponse {
   success: boolean;
   text: string;
   hasLatex: boolean;
   message?: string;
+  confidence?: number;
+  provider?: ExtractionProviderId;
+  source?: ExtractionPath;
+  promptProfile?: string;
 }
\ No newline at end of file
@@ -0,0 +1,68 @@
+// lib/usage-utils.ts
+import type { TokenUsage, UsageBudget } from './types';
+
+// USD per million tokens, from Google's published pay-as-you-go prices
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-flash-8b': { input: 0.0375, output: 0.15 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+};
+
+export const emptyUsage = (): TokenUsage => ({
+  promptTokens: 0,
+  outputTokens: 0,
+  totalTokens: 0,
+  requests: 0,
+  cachedRequests: 0,
+  costUsd: 0,
+});
+
+export const addUsage = (a: TokenUsage, b?: TokenUsage): TokenUsage => {
+  if (!b) return a;
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+    requests: a.requests + b.requests,
+    cachedRequests: a.cachedRequests + b.cachedRequests,
+    costUsd: a.costUsd + b.costUsd,
+  };
+};
+
+// Versioned names like "gemini-1.5-flash-002" are priced like their base model
+const findPricedModel = (model: string): string | undefined => Object.keys(MODEL_PRICING)
+  .filter(name => model === name || model.startsWith(`${name}-`))
+  .sort((a, b) => b.length - a.length)[0];
+
+export const estimateCost = (model: string, promptTokens: number, outputTokens: number): number => {
+  const pricedModel = findPricedModel(model);
+  if (!pricedModel) return 0;
+
+  const pricing = MODEL_PRICING[pricedModel];
+  return (promptTokens * pricing.input + outputTokens * pricing.output) / 1000000;
+};
+
+export const isBudgetExceeded = (usage: TokenUsage, budget?: UsageBudget): boolean => {
+  if (!budget) return false;
+  return (budget.maxTokens !== undefined && usage.totalTokens >= budget.maxTokens) ||
+    (budget.maxCostUsd !== undefined && usage.costUsd >= budget.maxCostUsd);
+};
+
+// Requests to a model with no known price are counted at $0, so a cost budget
+// would never stop the run; only a token budget does
+export const getBudgetWarning = (model: string, budget?: UsageBudget): string | undefined => {
+  if (budget?.maxCostUsd === undefined || findPricedModel(model)) return undefined;
+  return `No price is known for ${model}, so the cost budget can't be enforced. Set a token budget instead.`;
+};
+
+export const formatCost = (costUsd: number): string => {
+  return costUsd < 0.01 && costUsd > 0 ? `$${costUsd.toFixed(4)}` : `$${costUsd.toFixed(2)}`;
+};
+
+export const formatUsage = (usage: TokenUsage): string => {
+  const tokens = `${usage.totalTokens.toLocaleString()} tokens`;
+  const cached = usage.cachedRequests > 0 ? `, ${usage.cachedRequests} cached` : '';
+  return `${tokens} in ${usage.requests} request${usage.requests === 1 ? '' : 's'}${cached} (${formatCost(usage.costUsd)})`;
+};
@@ -1,76 +1,135 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import fs from 'fs';
-import path from 'path';
+import { DEFAULT_EXTRACTION_DPI, clampExtractionDpi } from '../../lib/extraction-pipeline';
+import type { ExtractionProvider } from '../../lib/extraction-providers';
+import { PageRenderer } from '../../lib/page-renderer';
+import { parsePromptProfileRequest, resolvePagePromptProfile } from '../../lib/prompt-profiles';
+import type { PromptProfile } from '../../lib/prompt-profiles';
+import { dpiToScale, scaleBoundingBox } from '../../lib/pdf-utils';
+import {
+  checkServerKeyRateLimit, createServerProvider, parseRequestSettings, resolveServerProvider
+} from '../../lib/server-extraction';
+import { installNodeCanvas, loadStoredPDF } from '../../lib/server-pdf-utils';
+import { getBoxRegions, hasContinuations, stitchBoxes } from '../../lib/stitch-utils';
+import type { BoundingBox, ExtractionProviderId, ExtractionType, ExtractResponse } from '../../lib/types';
 
-// Note: For Vercel deployment, we'll use a client-side extraction approach
-// since server-side PDF processing with canvas and complex dependencies
-// can be challenging in serverless environments
+// Extracts one box from a PDF stored by /api/upload, so clients without a
+// browser can use the same providers as the UI. Gemini uses the apiKey from
+// the request or GEMINI_API_KEY; without either, hybrid falls back to Tesseract.
+// Requests on GEMINI_API_KEY share the Gemini proxy's per-client rate limit.
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ExtractResponse | { error: string }>
+) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
+  const {
+    fileId,
+    boundingBox,
+    type,
+    dpi,
+    apiKey,
+    settings,
+    provider: requestedProvider,
+    promptProfiles,
+    promptProfileSelection,
+  } = req.body ?? {};
+
+  if (!fileId) {
+    return res.status(400).json({ success: false, text: '', hasLatex: false, message: 'File ID required' });
+  }
+
+  if (!boundingBox || typeof boundingBox.page !== 'number') {
+    return res.status(400).json({
+      success: false,
+      text: '',
+      hasLatex: false,
+      message: 'Bounding box coordinates required',
+    });
+  }
+
+  let providerId: ExtractionProviderId;
+  let geminiKey: string | undefined;
+  let usesServerKey: boolean;
+  let profile: PromptProfile;
   try {
-    const { fileId, boundingBox, type } = req.body;
+    ({ providerId, geminiKey, usesServerKey } = resolveServerProvider({ provider: requestedProvider, apiKey }));
+    const request = parsePromptProfileRequest(promptProfiles, promptProfileSelection);
+    profile = resolvePagePromptProfile(request.promptProfiles, request.promptProfileSelection, boundingBox.page);
+  } catch (error) {
+    return res.status(400).json({ success: false, text: '', hasLatex: false, message: (error as Error).message });
+  }
 
-    if (!boundingBox) {
-      return res.status(400).json({
+  if (usesServerKey) {
+    const rate = checkServerKeyRateLimit(req, res);
+    if (!rate.allowed) {
+      return res.status(429).json({
         success: false,
-        message: 'Bounding box coordinates required',
+        text: '',
+        hasLatex: false,
+        message: `Rate limit of ${rate.limit} requests per minute exceeded`,
       });
     }
+  }
 
-    // For this demo, we'll return mock extracted text
-    // In a real implementation, you would:
-    // 1. Load the PDF file using the fileId
-    // 2. Extract text from the specified bounding box coordinates
-    // 3. Process the text for LaTeX detection
-    
-    const mockTexts = {
-      question: [
-        "What is the derivative of $f(x) = x^2 + 3x + 2$?",
-        "Solve for x: $2x + 5 = 13$",
-        "Which of the following is equivalent to $\\frac{a^2 - b^2}{a + b}$?",
-        "Find the value of $\\int_0^1 x^2 dx$",
-        "What is the solution to the equation $x^2 - 5x + 6 = 0$?"
-      ],
-      option: [
-        "$2x + 3$",
-        "$x = 4$",
-        "$a - b$",
-        "$\\frac{1}{3}$",
-        "$x = 2, x = 3$",
-        "$2x^2 + 3$",
-        "$x = 8$",
-        "$a + b$",
-        "$\\frac{2}{3}$",
-        "$x = 1, x = 6$",
-        "$x^2 + 3$",
-        "$x = -4$",
-        "$\\frac{a^2}{b^2}$",
-        "$1$",
-        "$x = -2, x = -3$"
-      ]
-    };
+  installNodeCanvas();
+
+  let pdf;
+  try {
+    pdf = await loadStoredPDF(fileId);
+  } catch (error) {
+    return res.status(404).json({ success: false, text: '', hasLatex: false, message: (error as Error).message });
+  }
+
+  let provider: ExtractionProvider | undefined;
+  let renderer: PageRenderer | undefined;
+  try {
+    ({ provider } = createServerProvider(providerId, pdf, geminiKey, parseRequestSettings(settings, usesServerKey)));
+    renderer = new PageRenderer(pdf, dpiToScale(clampExtractionDpi(Number(dpi) || DEFAULT_EXTRACTION_DPI)));
+
+    // Continuation regions can sit on other pages, so every region is checked
+    const outside = getBoxRegions(boundingBox).find(region => region.page < 1 || region.page > pdf.numPages);
+    if (outside) {
+      return res.status(400).json({
+        success: false,
+        text: '',
+        hasLatex: false,
+        message: `Page ${outside.page} is outside the document (1-${pdf.numPages})`,
+      });
+    }
 
-    // Simulate text extraction with random selection
-    const texts = type === 'question' ? mockTexts.question : mockTexts.option;
-    const extractedText = texts[Math.floor(Math.random() * texts.length)];
-    
-    // Detect if text contains LaTeX
-    const hasLatex = /\$.*\$|\\[a-zA-Z]+/.test(extractedText);
+    const extractionType: ExtractionType = type === 'option' || type === 'solution' || type === 'passage' ? type : 'question';
+    const stitched = hasContinuations(boundingBox) ? await stitchBoxes(renderer, [boundingBox]) : null;
+    const canvas = stitched?.canvas ?? await renderer.getPageCanvas(boundingBox.page);
+    const result = await provider.extractTextFromCanvas(
+      canvas,
+      stitched?.boxes[0] ?? scaleBoundingBox(boundingBox as BoundingBox, renderer.scale),
+      extractionType,
+      profile
+    );
 
     res.status(200).json({
       success: true,
-      text: extractedText,
-      hasLatex,
+      text: result.text,
+      hasLatex: result.hasLatex,
+      confidence: result.confidence,
+      provider: providerId,
+      source: result.source,
+      promptProfile: result.promptProfile,
     });
   } catch (error) {
     console.error('Extraction error:', error);
     res.status(500).json({
       success: false,
-      message: 'Text extraction failed',
+      text: '',
+      hasLatex: false,
+      message: `Text extraction failed: ${(error as Error).message}`,
     });
+  } finally {
+    await renderer?.clear();
+    await provider?.dispose?.();
+    await pdf.destroy();
   }
-}
\ No newline at end of file
+}
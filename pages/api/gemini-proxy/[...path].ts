@@ -0,0 +1,72 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { buildErrorBody } from '../../../lib/mock-gemini';
+import { GEMINI_UPSTREAM_BASE_URL, checkServerKeyRateLimit, getGeminiProxyConfig } from '../../../lib/server-extraction';
+
+// Forwards generateContent calls to Google with the key from GEMINI_API_KEY, so
+// the browser never sees it. The UI switches to this route automatically when
+// GEMINI_PROXY_ENABLED=true; see lib/gemini-proxy.ts.
+
+export const config = {
+  api: {
+    bodyParser: {
+      // Page crops are sent inline as base64 PNGs
+      sizeLimit: '20mb'
+    }
+  }
+};
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const proxyConfig = getGeminiProxyConfig();
+  if (!proxyConfig.enabled) {
+    return res.status(404).json(buildErrorBody(404, 'Gemini proxy is disabled'));
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json(buildErrorBody(405, 'Method not allowed'));
+  }
+
+  const segments = ([] as string[]).concat(req.query.path ?? []);
+  const match = /^(v1|v1beta)\/models\/([^:/]+):generateContent$/.exec(segments.join('/'));
+  if (!match) {
+    return res.status(400).json(buildErrorBody(400, `Unsupported proxy endpoint: /${segments.join('/')}`));
+  }
+
+  // Matches parseRequestSettings: with the server's key, the server picks the model
+  const [, version, model] = match;
+  if (proxyConfig.models.indexOf(model) === -1) {
+    return res.status(403).json(buildErrorBody(
+      403,
+      `Model "${model}" is not available through the proxy. Use one of: ${proxyConfig.models.join(', ')}`
+    ));
+  }
+
+  const rate = checkServerKeyRateLimit(req, res);
+  if (!rate.allowed) {
+    // RetryInfo lets the extraction queue wait exactly as long as needed
+    return res.status(429).json(buildErrorBody(
+      429,
+      `Rate limit of ${rate.limit} requests per minute exceeded`,
+      `${rate.retryAfterSeconds}s`
+    ));
+  }
+
+  try {
+    const upstream = await fetch(`${GEMINI_UPSTREAM_BASE_URL}/${version}/models/${model}:generateContent`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        // Only the server's key is ever forwarded; whatever the browser sent is dropped
+        'x-goog-api-key': proxyConfig.apiKey as string,
+      },
+      body: JSON.stringify(req.body),
+    });
+
+    const body = await upstream.text();
+    res.status(upstream.status);
+    res.setHeader('Content-Type', upstream.headers.get('content-type') || 'application/json');
+    res.send(body);
+  } catch (error) {
+    console.error('Gemini proxy error:', error);
+    res.status(502).json(buildErrorBody(502, 'Could not reach the Gemini API'));
+  }
+}
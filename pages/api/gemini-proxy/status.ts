@@ -0,0 +1,9 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import type { GeminiProxyStatus } from '../../../lib/gemini-proxy';
+import { getGeminiProxyConfig } from '../../../lib/server-extraction';
+
+// Lets the UI find out whether the Gemini key is managed by the server
+export default function handler(req: NextApiRequest, res: NextApiResponse<GeminiProxyStatus>) {
+  const { enabled, rateLimit, models } = getGeminiProxyConfig();
+  res.status(200).json(enabled ? { enabled, rateLimit, models } : { enabled });
+}
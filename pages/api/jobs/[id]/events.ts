@@ -0,0 +1,77 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getExtractionJob, isJobFinished, subscribeExtractionJob } from '../../../../lib/extraction-jobs';
+import type { ExtractionJobSnapshot } from '../../../../lib/types';
+
+// Server-Sent Events for one job:
+//   status   - { status } whenever the job moves between queued, detecting and extracting
+//   progress - the same ExtractionProgress the UI shows, once per change
+//   done     - the final job snapshot, after which the stream closes
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const id = String(req.query.id);
+  const initial = getExtractionJob(id);
+  if (!initial) {
+    return res.status(404).json({ error: `Job not found: ${id}` });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    // no-transform keeps the compression middleware from buffering the stream
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+  });
+
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  let lastStatus = initial.status;
+  let lastProgress = initial.progress;
+  let unsubscribe = () => {};
+  let heartbeat: ReturnType<typeof setInterval> | null = null;
+  let closed = false;
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    unsubscribe();
+    if (heartbeat) clearInterval(heartbeat);
+    res.end();
+  };
+
+  const handleUpdate = (job: ExtractionJobSnapshot) => {
+    if (job.status !== lastStatus) {
+      lastStatus = job.status;
+      send('status', { status: job.status });
+    }
+    if (job.progress && job.progress !== lastProgress) {
+      lastProgress = job.progress;
+      send('progress', job.progress);
+    }
+    if (isJobFinished(job.status)) {
+      send('done', job);
+      close();
+    }
+  };
+
+  send('status', { status: initial.status });
+  if (initial.progress) {
+    send('progress', initial.progress);
+  }
+
+  if (isJobFinished(initial.status)) {
+    send('done', initial);
+    return close();
+  }
+
+  unsubscribe = subscribeExtractionJob(id, handleUpdate);
+  // Comment lines keep proxies from closing an idle stream during long requests
+  heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+  req.on('close', close);
+}
@@ -0,0 +1,24 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { cancelExtractionJob, getExtractionJob } from '../../../../lib/extraction-jobs';
+import type { ExtractionJobSnapshot } from '../../../../lib/types';
+
+// GET polls a job's status; DELETE cancels it, keeping whatever already finished.
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ExtractionJobSnapshot | { error: string }>
+) {
+  const id = String(req.query.id);
+
+  if (req.method === 'GET') {
+    const job = getExtractionJob(id);
+    return job ? res.status(200).json(job) : res.status(404).json({ error: `Job not found: ${id}` });
+  }
+
+  if (req.method === 'DELETE') {
+    const job = cancelExtractionJob(id);
+    return job ? res.status(202).json(job) : res.status(404).json({ error: `Job not found: ${id}` });
+  }
+
+  res.status(405).json({ error: 'Method not allowed' });
+}
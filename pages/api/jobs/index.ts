@@ -0,0 +1,112 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { submitExtractionJob } from '../../../lib/extraction-jobs';
+import { clampExtractionConcurrency, clampExtractionDpi } from '../../../lib/extraction-pipeline';
+import { parsePromptProfileRequest } from '../../../lib/prompt-profiles';
+import type { PromptProfile, PromptProfileSelection } from '../../../lib/prompt-profiles';
+import {
+  checkServerKeyRateLimit, getServerGeminiSettings, parseRequestBudget, parseRequestSettings, resolveServerProvider
+} from '../../../lib/server-extraction';
+import { resolveUploadPath } from '../../../lib/server-pdf-utils';
+import { getBudgetWarning } from '../../../lib/usage-utils';
+import type { BoundingBox, ExtractionProviderId, JobSubmitResponse } from '../../../lib/types';
+
+// Submits a whole-document extraction. The job runs in the background; poll
+// /api/jobs/<id> or stream /api/jobs/<id>/events for progress and results.
+
+export const config = {
+  api: {
+    bodyParser: {
+      // Large documents can carry thousands of boxes
+      sizeLimit: '5mb'
+    }
+  }
+};
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<JobSubmitResponse>) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, message: 'Method not allowed' });
+  }
+
+  const {
+    fileId,
+    boundingBoxes,
+    autoDetect,
+    provider: requestedProvider,
+    apiKey,
+    settings,
+    dpi,
+    concurrency,
+    budget,
+    promptProfiles: requestedProfiles,
+    promptProfileSelection: requestedSelection,
+  } = req.body ?? {};
+
+  if (!fileId) {
+    return res.status(400).json({ success: false, message: 'File ID required' });
+  }
+
+  const hasBoxes = Array.isArray(boundingBoxes) && boundingBoxes.length > 0;
+  if (!hasBoxes && !autoDetect) {
+    return res.status(400).json({
+      success: false,
+      message: 'Provide boundingBoxes or an autoDetect request',
+    });
+  }
+
+  if (hasBoxes && !(boundingBoxes as BoundingBox[]).every(bbox => bbox && bbox.id && typeof bbox.page === 'number')) {
+    return res.status(400).json({ success: false, message: 'Every bounding box needs an id and a page' });
+  }
+
+  let providerId: ExtractionProviderId;
+  let geminiKey: string | undefined;
+  let usesServerKey: boolean;
+  let promptProfiles: PromptProfile[];
+  let promptProfileSelection: PromptProfileSelection;
+  try {
+    resolveUploadPath(fileId);
+    ({ providerId, geminiKey, usesServerKey } = resolveServerProvider({ provider: requestedProvider, apiKey }));
+    ({ promptProfiles, promptProfileSelection } = parsePromptProfileRequest(requestedProfiles, requestedSelection));
+  } catch (error) {
+    return res.status(400).json({ success: false, message: (error as Error).message });
+  }
+
+  if (usesServerKey) {
+    const rate = checkServerKeyRateLimit(req, res);
+    if (!rate.allowed) {
+      return res.status(429).json({
+        success: false,
+        message: `Rate limit of ${rate.limit} requests per minute exceeded`,
+      });
+    }
+  }
+
+  const geminiSettings = parseRequestSettings(settings, usesServerKey);
+  const jobBudget = parseRequestBudget(budget, usesServerKey);
+  // Only runs that reach Gemini are billed, so only they need a priced model
+  const budgetWarning = geminiKey && (providerId === 'gemini' || providerId === 'hybrid')
+    ? getBudgetWarning(getServerGeminiSettings(geminiSettings).model, jobBudget)
+    : undefined;
+
+  const job = submitExtractionJob({
+    fileId,
+    boundingBoxes: hasBoxes ? boundingBoxes : undefined,
+    // `true` asks for the offline detector across the whole document
+    autoDetect: autoDetect === true ? {} : autoDetect || undefined,
+    providerId,
+    geminiKey,
+    settings: geminiSettings,
+    dpi: Number(dpi) ? clampExtractionDpi(Number(dpi)) : undefined,
+    concurrency: Number(concurrency) ? clampExtractionConcurrency(Number(concurrency)) : undefined,
+    budget: jobBudget,
+    promptProfiles,
+    promptProfileSelection,
+  });
+
+  res.status(202).json({
+    success: true,
+    jobId: job.id,
+    statusUrl: `/api/jobs/${job.id}`,
+    eventsUrl: `/api/jobs/${job.id}/events`,
+    ...(budgetWarning ? { budgetWarning } : {}),
+  });
+}
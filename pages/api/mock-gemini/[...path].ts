@@ -0,0 +1,56 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import path from 'path';
+import { buildErrorBody, handleGenerateContent, parseMockPath } from '../../../lib/mock-gemini';
+import type { MockRequest } from '../../../lib/mock-gemini';
+
+// Stand-in for the Gemini REST API. Point the Gemini base URL setting at
+// /api/mock-gemini (optionally with fault segments, e.g. /api/mock-gemini/rate-limit@1)
+// and requests are answered from fixtures/gemini instead of Google.
+
+export const config = {
+  api: {
+    bodyParser: {
+      // Page crops are sent inline as base64 PNGs
+      sizeLimit: '20mb'
+    }
+  }
+};
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (process.env.NODE_ENV === 'production' && process.env.MOCK_GEMINI_ENABLED !== 'true') {
+    return res.status(404).json(buildErrorBody(404, 'Mock Gemini server is disabled'));
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json(buildErrorBody(405, 'Method not allowed'));
+  }
+
+  let endpoint: Pick<MockRequest, 'model' | 'faults'>;
+  try {
+    endpoint = parseMockPath(([] as string[]).concat(req.query.path ?? []));
+  } catch (error) {
+    return res.status(400).json(buildErrorBody(400, (error as Error).message));
+  }
+
+  try {
+    const result = await handleGenerateContent(
+      { ...endpoint, body: req.body },
+      {
+        fixturesDir: process.env.MOCK_GEMINI_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'gemini'),
+        timeoutMs: Number(process.env.MOCK_GEMINI_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS,
+        recordApiKey: process.env.MOCK_GEMINI_RECORD_API_KEY,
+      }
+    );
+
+    if (result.delayMs) {
+      await new Promise(resolve => setTimeout(resolve, result.delayMs));
+    }
+
+    res.status(result.status).json(result.body);
+  } catch (error) {
+    console.error('Mock Gemini error:', error);
+    res.status(500).json(buildErrorBody(500, (error as Error).message));
+  }
+}
@@ -4,14 +4,48 @@ import Layout from '../components/Layout';
 import PDFViewerWithOverlay from '../components/PDFViewerWithOverlay';
 import MCQEditor from '../components/MCQEditor';
 import ApiKeyManager from '../components/ApiKeyManager';
+import ProviderSelector from '../components/ProviderSelector';
+import AutoDetectPanel from '../components/AutoDetectPanel';
+import ExtractionProgressModal from '../components/ExtractionProgressModal';
+import CachePanel from '../components/CachePanel';
+import AnswerKeyPanel from '../components/AnswerKeyPanel';
+import PromptProfilePanel from '../components/PromptProfilePanel';
 import { 
   Upload, Download, FileText, Brain, ArrowLeft, HardDrive, 
   Zap, Eye, Trash2, Save, FileDown, AlertCircle, CheckCircle,
-  Settings, Key 
+  Settings, Key, RotateCcw
 } from 'lucide-react';
-import type { BoundingBox, MCQ, PDFData } from '../lib/types';
-import { GeminiExtractor } from '../lib/gemini-utils';
+import type {
+  BoundingBox, ExtractionProgress, ExtractionProviderId, LayoutDetectorId, MCQ, Passage, PDFData, QuestionType, UsageBudget
+} from '../lib/types';
+import { DEFAULT_GEMINI_SETTINGS, GeminiExtractor } from '../lib/gemini-utils';
+import type { GeminiSettings } from '../lib/gemini-utils';
+import {
+  GEMINI_PROXY_API_KEY,
+  fetchGeminiProxyStatus,
+  isProxyApiKey,
+  withProxyBaseUrl
+} from '../lib/gemini-proxy';
+import type { GeminiProxyStatus } from '../lib/gemini-proxy';
+import { applyAnswerKey, loadAnswerKey } from '../lib/answer-key';
+import type { AnswerKeyReport } from '../lib/answer-key';
+import { getBoxNames } from '../lib/box-label-utils';
+import { createExtractionProvider, EXTRACTION_PROVIDERS } from '../lib/extraction-providers';
+import type { ExtractionProvider } from '../lib/extraction-providers';
+import {
+  DEFAULT_EXTRACTION_CONCURRENCY, DEFAULT_EXTRACTION_DPI, runExtractionPipeline
+} from '../lib/extraction-pipeline';
+import { JobQueue } from '../lib/job-queue';
+import { DEFAULT_LABEL_STYLE, LABEL_STYLES } from '../lib/label-utils';
+import type { LabelStyle } from '../lib/label-utils';
+import { createLayoutDetector, detectLayout, getPageRange } from '../lib/layout-detection';
+import type { LayoutDetector } from '../lib/layout-detection';
+import { DEFAULT_PROMPT_PROFILE_SELECTION, getPromptLibrary, parsePromptLibrary } from '../lib/prompt-profiles';
+import type { PromptProfile, PromptProfileSelection } from '../lib/prompt-profiles';
+import { QUESTION_TYPES } from '../lib/question-types';
 import { LocalStorage } from '../lib/storage-utils';
+import { formatUsage } from '../lib/usage-utils';
+import type { StoredExtractionRun } from '../lib/storage-utils';
 import * as pdfjsLib from 'pdfjs-dist';
 
 // Set up PDF.js worker
@@ -20,18 +54,11 @@ if (typeof window !== 'undefined') {
   pdfjsLib.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js`;
 }
 
-interface ExtractionProgress {
-  current: number;
-  total: number;
-  stage: 'processing' | 'extracting' | 'formatting' | 'complete';
-  currentItem?: string;
-  error?: string;
-}
-
 export default function Home() {
   const [pdfData, setPdfData] = useState<PDFData | null>(null);
   const [boundingBoxes, setBoundingBoxes] = useState<BoundingBox[]>([]);
   const [mcqs, setMcqs] = useState<MCQ[]>([]);
+  const [passages, setPassages] = useState<Passage[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [currentStep, setCurrentStep] = useState<'upload' | 'select' | 'edit'>('upload');
   const [extractionProgress, setExtractionProgress] = useState<ExtractionProgress | null>(null);
@@ -40,19 +67,56 @@ export default function Home() {
   const [notifications, setNotifications] = useState<Array<{id: string, message: string, type: 'success' | 'error' | 'info'}>>([]);
   const [geminiApiKey, setGeminiApiKey] = useState<string>('');
   const [showApiKeyManager, setShowApiKeyManager] = useState(false);
+  const [selectedProvider, setSelectedProvider] = useState<ExtractionProviderId>('tesseract');
+  const [extractionDpi, setExtractionDpi] = useState(DEFAULT_EXTRACTION_DPI);
+  const [extractionConcurrency, setExtractionConcurrency] = useState(DEFAULT_EXTRACTION_CONCURRENCY);
+  const [viewerPage, setViewerPage] = useState(1);
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [pendingRun, setPendingRun] = useState<StoredExtractionRun | null>(null);
+  const [bypassCache, setBypassCache] = useState(false);
+  const [geminiSettings, setGeminiSettings] = useState<GeminiSettings>(DEFAULT_GEMINI_SETTINGS);
+  const [usageBudget, setUsageBudget] = useState<UsageBudget>({});
+  const [geminiProxy, setGeminiProxy] = useState<GeminiProxyStatus>({ enabled: false });
+  const [isApplyingAnswerKey, setIsApplyingAnswerKey] = useState(false);
+  const [answerKeyReport, setAnswerKeyReport] = useState<AnswerKeyReport | null>(null);
+  const [labelStyle, setLabelStyle] = useState<LabelStyle>(DEFAULT_LABEL_STYLE);
+  const [customPromptProfiles, setCustomPromptProfiles] = useState<PromptProfile[]>([]);
+  const [promptProfileSelection, setPromptProfileSelection] = useState<PromptProfileSelection>(DEFAULT_PROMPT_PROFILE_SELECTION);
   
   const geminiExtractorRef = useRef<GeminiExtractor | null>(null);
+  const pdfDocRef = useRef<pdfjsLib.PDFDocumentProxy | null>(null);
+  const extractionQueueRef = useRef<JobQueue<MCQ> | null>(null);
 
   // Initialize Gemini extractor when API key is available
   useEffect(() => {
     // Check for stored API key on component mount
+    const storedSettings = LocalStorage.getGeminiSettings();
+    setGeminiSettings(storedSettings);
+
     const storedKey = sessionStorage.getItem('gemini_api_key');
     if (storedKey) {
       setGeminiApiKey(storedKey);
-      geminiExtractorRef.current = new GeminiExtractor(storedKey);
+      geminiExtractorRef.current = new GeminiExtractor(storedKey, { settings: storedSettings });
+      setSelectedProvider('gemini');
     }
+
+    // A server-managed key takes over from anything entered in this browser
+    fetchGeminiProxyStatus().then(status => {
+      if (!status.enabled) return;
+      setGeminiProxy(status);
+      setGeminiApiKey(GEMINI_PROXY_API_KEY);
+      geminiExtractorRef.current = new GeminiExtractor(GEMINI_PROXY_API_KEY, {
+        settings: withProxyBaseUrl(storedSettings, status)
+      });
+      setSelectedProvider('gemini');
+    });
   }, []);
 
+  // Keep the extractor in sync with the cache toggle, including after the key changes
+  useEffect(() => {
+    geminiExtractorRef.current?.setBypassCache(bypassCache);
+  }, [bypassCache, geminiApiKey]);
+
   // Update storage info
   useEffect(() => {
     const updateStorageInfo = () => {
@@ -71,6 +135,22 @@ export default function Home() {
     LocalStorage.cleanupOldFiles(7);
   }, []);
 
+  useEffect(() => {
+    setCustomPromptProfiles(LocalStorage.getCustomPromptProfiles());
+  }, []);
+
+  // Each project remembers which prompt profiles its pages use
+  useEffect(() => {
+    setPromptProfileSelection(
+      currentFileId ? LocalStorage.getPromptProfileSelection(currentFileId) : DEFAULT_PROMPT_PROFILE_SELECTION
+    );
+  }, [currentFileId]);
+
+  // Offer to resume an extraction that was interrupted by a reload
+  useEffect(() => {
+    setPendingRun(LocalStorage.getExtractionRun());
+  }, []);
+
   const addNotification = useCallback((message: string, type: 'success' | 'error' | 'info' = 'info') => {
     const id = Date.now().toString();
     setNotifications(prev => [...prev, { id, message, type }]);
@@ -83,14 +163,41 @@ export default function Home() {
   const handleApiKeySet = useCallback((newApiKey: string) => {
     if (newApiKey) {
       setGeminiApiKey(newApiKey);
-      geminiExtractorRef.current = new GeminiExtractor(newApiKey);
+      geminiExtractorRef.current = new GeminiExtractor(newApiKey, { settings: geminiSettings });
+      setSelectedProvider('gemini');
       addNotification('Gemini API connected successfully!', 'success');
     } else {
       setGeminiApiKey('');
       geminiExtractorRef.current = null;
+      setSelectedProvider(prev => prev === 'gemini' ? 'tesseract' : prev);
       addNotification('API key removed', 'info');
     }
-  }, [addNotification]);
+  }, [geminiSettings, addNotification]);
+
+  const handleGeminiSettingsChange = useCallback((settings: GeminiSettings) => {
+    setGeminiSettings(settings);
+    LocalStorage.saveGeminiSettings(settings);
+
+    // Rebuild the extractor so the new model and endpoint take effect immediately
+    if (geminiApiKey) {
+      geminiExtractorRef.current = new GeminiExtractor(geminiApiKey, {
+        settings: isProxyApiKey(geminiApiKey) ? withProxyBaseUrl(settings, geminiProxy) : settings,
+        bypassCache
+      });
+    }
+    addNotification('Gemini settings saved', 'success');
+  }, [geminiApiKey, geminiProxy, bypassCache, addNotification]);
+
+  const openPdf = useCallback(async (file: File, fileId: string) => {
+    const arrayBuffer = await file.arrayBuffer();
+    const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+    pdfDocRef.current = pdf;
+
+    setCurrentFileId(fileId);
+    setPdfData({ file, numPages: pdf.numPages, currentPage: 1 });
+    setCurrentStep('select');
+    return pdf;
+  }, []);
 
   const handleFileUpload = useCallback(async (file: File) => {
     setIsLoading(true);
@@ -108,13 +215,7 @@ export default function Home() {
 
       addNotification('Saving file locally...', 'info');
       const fileId = await LocalStorage.saveFile(file);
-      setCurrentFileId(fileId);
-
-      const arrayBuffer = await file.arrayBuffer();
-      const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-      
-      setPdfData({ file, numPages: pdf.numPages, currentPage: 1 });
-      setCurrentStep('select');
+      await openPdf(file, fileId);
       
       addNotification('File uploaded and saved successfully!', 'success');
     } catch (error) {
@@ -123,7 +224,7 @@ export default function Home() {
     } finally {
       setIsLoading(false);
     }
-  }, [storageInfo.remaining, addNotification]);
+  }, [storageInfo.remaining, openPdf, addNotification]);
 
   const handleBoundingBoxCreate = useCallback((bbox: BoundingBox) => {
     setBoundingBoxes(prev => [...prev, bbox]);
@@ -139,171 +240,363 @@ export default function Home() {
     setBoundingBoxes(prev => prev.filter(bbox => bbox.id !== id));
   }, []);
 
-  const handleExtractText = useCallback(async () => {
-    if (!pdfData || boundingBoxes.length === 0 || !geminiExtractorRef.current) {
-      if (!geminiExtractorRef.current) {
-        addNotification('Please configure Gemini API key first', 'error');
-        setShowApiKeyManager(true);
-        return;
-      }
+  const handleAutoDetect = useCallback(async (
+    detectorId: LayoutDetectorId,
+    range: { from: number; to: number }
+  ) => {
+    const pdf = pdfDocRef.current;
+    if (!pdf) {
+      addNotification('PDF is not loaded yet', 'error');
       return;
     }
 
-    setIsLoading(true);
-    const questionBoxes = boundingBoxes.filter(bbox => bbox.type === 'question');
-    
-    setExtractionProgress({
-      current: 0,
-      total: questionBoxes.length,
-      stage: 'processing'
-    });
+    let detector: LayoutDetector;
+    try {
+      detector = createLayoutDetector(detectorId, {
+        geminiExtractor: geminiExtractorRef.current,
+        pdf,
+      });
+    } catch (error) {
+      addNotification((error as Error).message, 'error');
+      return;
+    }
+
+    const pages = getPageRange(range.from, range.to, pdf.numPages);
+    setIsDetecting(true);
 
     try {
-      const extractedMCQs: MCQ[] = [];
-
-      for (let i = 0; i < questionBoxes.length; i++) {
-        const questionBox = questionBoxes[i];
-        
-        setExtractionProgress({
-          current: i + 1,
-          total: questionBoxes.length,
-          stage: 'extracting',
-          currentItem: `Question ${i + 1} from page ${questionBox.page}`
-        });
-
-        // Find option boxes on the same page
-        const optionBoxes = boundingBoxes.filter(
-          bbox => bbox.type === 'option' && bbox.page === questionBox.page
+      const suggestions = await detectLayout({
+        pdf,
+        pages,
+        detector,
+        onProgress: setExtractionProgress,
+      });
+
+      // Re-running detection replaces earlier, still-unreviewed suggestions for those pages
+      setBoundingBoxes(prev => [
+        ...prev.filter(bbox => !(bbox.suggested && pages.includes(bbox.page))),
+        ...suggestions,
+      ]);
+
+      addNotification(
+        `Found ${suggestions.length} suggested region${suggestions.length === 1 ? '' : 's'} on ${pages.length} page${pages.length === 1 ? '' : 's'}`,
+        suggestions.length > 0 ? 'success' : 'info'
+      );
+    } catch (error) {
+      console.error('Auto-detection failed:', error);
+      addNotification('Auto-detection failed: ' + (error as Error).message, 'error');
+    } finally {
+      setIsDetecting(false);
+      setTimeout(() => setExtractionProgress(null), 3000);
+    }
+  }, [addNotification]);
+
+  const handleAcceptAllSuggestions = useCallback(() => {
+    setBoundingBoxes(prev => prev.map(bbox => bbox.suggested ? { ...bbox, suggested: false } : bbox));
+  }, []);
+
+  const handleRejectAllSuggestions = useCallback(() => {
+    setBoundingBoxes(prev => prev.filter(bbox => !bbox.suggested));
+  }, []);
+
+  const runExtraction = useCallback(async ({
+    pdf,
+    file,
+    fileId,
+    boxes,
+    providerId,
+    dpi,
+    promptProfiles,
+    promptProfileSelection,
+    completed = [],
+    completedPassages = [],
+  }: {
+    pdf: pdfjsLib.PDFDocumentProxy;
+    file: File;
+    fileId: string | null;
+    boxes: BoundingBox[];
+    providerId: ExtractionProviderId;
+    dpi: number;
+    promptProfiles: PromptProfile[];
+    promptProfileSelection: PromptProfileSelection;
+    completed?: MCQ[];
+    completedPassages?: Passage[];
+  }) => {
+    const provider = createExtractionProvider(providerId, {
+      geminiExtractor: geminiExtractorRef.current,
+      pdf,
+    });
+    const providerName = EXTRACTION_PROVIDERS[providerId].name;
+    const queue = new JobQueue<MCQ>({ concurrency: extractionConcurrency });
+    extractionQueueRef.current = queue;
+
+    // Figures make results large, so storage can run out part-way; say so once per run
+    let progressSaveFailed = false;
+    const saveProgress = (save: () => void) => {
+      try {
+        save();
+      } catch (error) {
+        if (progressSaveFailed) return;
+        progressSaveFailed = true;
+        addNotification(
+          'Browser storage is full: extraction progress and figures will not survive a reload. Export or save the project when the run ends.',
+          'error'
         );
+      }
+    };
 
-        // Get the current canvas
-        const canvas = document.querySelector('canvas') as HTMLCanvasElement;
-        if (!canvas) continue;
-
-        try {
-          setExtractionProgress(prev => prev ? {
-            ...prev,
-            stage: 'extracting',
-            currentItem: `Analyzing question ${i + 1}...`
-          } : null);
-
-          // Use Gemini to extract the complete MCQ
-          const mcqResult = await geminiExtractorRef.current.extractMCQFromCanvas(
-            canvas,
-            questionBox,
-            optionBoxes
-          );
-
-          setExtractionProgress(prev => prev ? {
-            ...prev,
-            stage: 'formatting',
-            currentItem: `Formatting question ${i + 1}...`
-          } : null);
-
-          if (mcqResult.question && mcqResult.options.length > 0) {
-            extractedMCQs.push({
-              id: questionBox.id,
-              question: mcqResult.question,
-              options: mcqResult.options,
-              page: questionBox.page,
-            });
-          }
-        } catch (error) {
-          console.error(`Gemini extraction failed for question ${i + 1}:`, error);
-          
-          // Fallback: try individual extractions
+    // Record the run before starting so a reload mid-way can pick it up again
+    if (fileId) {
+      saveProgress(() => LocalStorage.saveExtractionRun({
+        fileId,
+        fileName: file.name,
+        timestamp: Date.now(),
+        provider: providerId,
+        dpi,
+        boundingBoxes: boxes,
+        mcqs: completed,
+        passages: completedPassages,
+      }));
+      // Otherwise results would be added to whichever run was stored before
+      if (progressSaveFailed) LocalStorage.clearExtractionRun();
+    }
+    setPendingRun(null);
+    setIsLoading(true);
+
+    try {
+      const { mcqs: extractedMCQs, passages: extractedPassages, usage, budgetReached } = await runExtractionPipeline({
+        pdf,
+        boundingBoxes: boxes,
+        provider,
+        dpi,
+        queue,
+        completed,
+        completedPassages,
+        budget: usageBudget,
+        promptProfiles,
+        promptProfileSelection,
+        onProgress: setExtractionProgress,
+        onItemComplete: mcq => saveProgress(() => LocalStorage.saveExtractionRunResult(mcq)),
+        onPassageComplete: passage => saveProgress(() => LocalStorage.saveExtractionRunPassage(passage)),
+      });
+
+      if (fileId && usage.requests + usage.cachedRequests > 0) {
+        LocalStorage.addProjectUsage(fileId, usage);
+      }
+
+      const failedCount = queue.getItems().filter(item => item.status === 'failed').length;
+      const wasCancelled = queue.getState() === 'cancelled';
+
+      if (extractedMCQs.length > 0) {
+        setMcqs(extractedMCQs);
+        setPassages(extractedPassages);
+        setAnswerKeyReport(null);
+
+        // Save extraction data locally
+        if (fileId) {
           try {
-            const questionResult = await geminiExtractorRef.current!.extractTextFromCanvas(
-              canvas,
-              questionBox,
-              'question'
+            LocalStorage.saveMCQData(
+              fileId,
+              file.name,
+              extractedMCQs,
+              boxes,
+              extractedPassages
             );
-
-            const options: string[] = [];
-            for (const optionBox of optionBoxes) {
-              try {
-                const optionResult = await geminiExtractorRef.current!.extractTextFromCanvas(
-                  canvas,
-                  optionBox,
-                  'option'
-                );
-                if (optionResult.text.trim()) {
-                  options.push(optionResult.text.trim());
-                }
-              } catch (optionError) {
-                console.error('Option extraction failed:', optionError);
-              }
-            }
-
-            if (questionResult.text && options.length > 0) {
-              extractedMCQs.push({
-                id: questionBox.id,
-                question: questionResult.text,
-                options,
-                page: questionBox.page,
-              });
-            }
-          } catch (fallbackError) {
-            console.error('Fallback extraction also failed:', fallbackError);
-            setExtractionProgress(prev => prev ? {
-              ...prev,
-              error: `Failed to extract question ${i + 1}: ${(fallbackError as Error).message}`
-            } : null);
+          } catch (error) {
+            addNotification('Failed to save project', 'error');
           }
         }
 
-        // Small delay to prevent rate limiting
-        await new Promise(resolve => setTimeout(resolve, 500));
+        setCurrentStep('edit');
       }
 
-      setMcqs(extractedMCQs);
-      
-      // Save extraction data locally
-      if (currentFileId) {
-        LocalStorage.saveMCQData(
-          currentFileId,
-          pdfData.file.name,
-          extractedMCQs,
-          boundingBoxes
-        );
+      // Unfinished questions stay in the stored run so they can be resumed later
+      if (wasCancelled || failedCount > 0) {
+        setPendingRun(LocalStorage.getExtractionRun());
+      } else {
+        LocalStorage.clearExtractionRun();
       }
-      
-      setCurrentStep('edit');
-      
-      setExtractionProgress({
-        current: questionBoxes.length,
-        total: questionBoxes.length,
-        stage: 'complete'
-      });
 
-      addNotification(`Successfully extracted ${extractedMCQs.length} questions using Gemini AI!`, 'success');
+      if (budgetReached) {
+        addNotification(`Run budget reached after ${formatUsage(usage)}`, 'error');
+      } else if (wasCancelled) {
+        addNotification(`Extraction cancelled after ${extractedMCQs.length} questions`, 'info');
+      } else if (failedCount > 0) {
+        addNotification(`Extracted ${extractedMCQs.length} questions using ${providerName}; ${failedCount} failed`, 'error');
+      } else {
+        addNotification(`Successfully extracted ${extractedMCQs.length} questions using ${providerName}!`, 'success');
+      }
 
+      // Leave the modal open when something went wrong so the failures can be read
+      if (!wasCancelled && failedCount === 0) {
+        setTimeout(() => setExtractionProgress(null), 3000);
+      }
     } catch (error) {
       console.error('Extraction failed:', error);
       addNotification('Extraction failed: ' + (error as Error).message, 'error');
+      setPendingRun(LocalStorage.getExtractionRun());
       setExtractionProgress(prev => prev ? {
         ...prev,
+        stage: 'complete',
+        queueState: queue.getState(),
         error: (error as Error).message
       } : null);
     } finally {
+      extractionQueueRef.current = null;
+      await provider.dispose?.();
       setIsLoading(false);
-      setTimeout(() => setExtractionProgress(null), 3000);
     }
-  }, [pdfData, boundingBoxes, currentFileId, addNotification]);
+  }, [extractionConcurrency, usageBudget, addNotification]);
+
+  const handleExtractText = useCallback(async () => {
+    if (!pdfData || boundingBoxes.length === 0) {
+      return;
+    }
+
+    if (EXTRACTION_PROVIDERS[selectedProvider].requiresApiKey && !geminiExtractorRef.current) {
+      addNotification('Please configure Gemini API key first', 'error');
+      setShowApiKeyManager(true);
+      return;
+    }
+
+    const pdf = pdfDocRef.current;
+    if (!pdf) {
+      addNotification('PDF is not loaded yet', 'error');
+      return;
+    }
+
+    await runExtraction({
+      pdf,
+      file: pdfData.file,
+      fileId: currentFileId,
+      boxes: boundingBoxes,
+      providerId: selectedProvider,
+      dpi: extractionDpi,
+      promptProfiles: getPromptLibrary(customPromptProfiles),
+      promptProfileSelection,
+    });
+  }, [pdfData, boundingBoxes, currentFileId, selectedProvider, extractionDpi, customPromptProfiles, promptProfileSelection, runExtraction, addNotification]);
+
+  const handleResumeExtraction = useCallback(async () => {
+    const run = pendingRun;
+    if (!run) return;
+
+    const providerId = run.provider as ExtractionProviderId;
+    if (!EXTRACTION_PROVIDERS[providerId]) {
+      addNotification(`Unknown extraction provider: ${run.provider}`, 'error');
+      return;
+    }
+
+    if (EXTRACTION_PROVIDERS[providerId].requiresApiKey && !geminiExtractorRef.current) {
+      addNotification('Please configure Gemini API key first', 'error');
+      setShowApiKeyManager(true);
+      return;
+    }
+
+    let pdf = pdfDocRef.current;
+    let file = pdfData?.file;
+
+    // After a reload the PDF has to be reopened from local storage
+    if (!pdf || !file || currentFileId !== run.fileId) {
+      const storedFile = await LocalStorage.getFile(run.fileId);
+      if (!storedFile) {
+        addNotification('The PDF for this extraction is no longer stored locally', 'error');
+        LocalStorage.clearExtractionRun();
+        setPendingRun(null);
+        return;
+      }
+
+      try {
+        pdf = await openPdf(storedFile, run.fileId);
+        file = storedFile;
+      } catch (error) {
+        addNotification('Failed to reopen PDF: ' + (error as Error).message, 'error');
+        return;
+      }
+    }
+
+    setBoundingBoxes(run.boundingBoxes);
+    setSelectedProvider(providerId);
+    setExtractionDpi(run.dpi);
+
+    await runExtraction({
+      pdf,
+      file,
+      fileId: run.fileId,
+      boxes: run.boundingBoxes,
+      providerId,
+      dpi: run.dpi,
+      promptProfiles: getPromptLibrary(customPromptProfiles),
+      promptProfileSelection: LocalStorage.getPromptProfileSelection(run.fileId),
+      completed: run.mcqs,
+      completedPassages: run.passages,
+    });
+  }, [pendingRun, pdfData, currentFileId, customPromptProfiles, openPdf, runExtraction, addNotification]);
+
+  const handleDiscardRun = useCallback(() => {
+    LocalStorage.clearExtractionRun();
+    setPendingRun(null);
+  }, []);
+
+  const handleApplyAnswerKey = useCallback(async (overwrite: boolean) => {
+    const pdf = pdfDocRef.current;
+    if (!pdf) {
+      addNotification('PDF is not loaded yet', 'error');
+      return;
+    }
+
+    // Only used for marked regions without a text layer, so a missing key just skips it
+    let provider: ExtractionProvider | undefined;
+    try {
+      provider = createExtractionProvider(selectedProvider, {
+        geminiExtractor: geminiExtractorRef.current,
+        pdf,
+      });
+    } catch {
+      provider = undefined;
+    }
+
+    setIsApplyingAnswerKey(true);
+    try {
+      const answerKey = await loadAnswerKey(pdf, boundingBoxes, provider);
+      if (!answerKey) {
+        setAnswerKeyReport(null);
+        addNotification('No answer key found. Mark the answer-key table as a region and try again.', 'error');
+        return;
+      }
+
+      const { mcqs: updatedMCQs, report } = applyAnswerKey(mcqs, answerKey, { overwrite });
+      setMcqs(updatedMCQs);
+      setAnswerKeyReport(report);
+
+      const needsReview = report.conflicts.length + report.unanswered.length;
+      addNotification(
+        `Filled in ${report.applied} answer${report.applied === 1 ? '' : 's'} from the answer key` +
+          (needsReview > 0 ? `; ${needsReview} need${needsReview === 1 ? 's' : ''} review` : ''),
+        needsReview > 0 ? 'info' : 'success'
+      );
+    } catch (error) {
+      console.error('Answer key failed:', error);
+      addNotification('Could not read the answer key: ' + (error as Error).message, 'error');
+    } finally {
+      await provider?.dispose?.();
+      setIsApplyingAnswerKey(false);
+    }
+  }, [boundingBoxes, mcqs, selectedProvider, addNotification]);
 
   const handleDownloadJSON = useCallback(() => {
     if (mcqs.length > 0 && pdfData) {
-      LocalStorage.exportMCQAsJSON(mcqs, pdfData.file.name);
+      LocalStorage.exportMCQAsJSON(mcqs, pdfData.file.name, passages, labelStyle);
       addNotification('JSON file downloaded successfully!', 'success');
     }
-  }, [mcqs, pdfData, addNotification]);
+  }, [mcqs, passages, pdfData, labelStyle, addNotification]);
 
   const handleDownloadCSV = useCallback(() => {
     if (mcqs.length > 0 && pdfData) {
-      LocalStorage.exportMCQAsCSV(mcqs, pdfData.file.name);
+      LocalStorage.exportMCQAsCSV(mcqs, pdfData.file.name, passages, labelStyle);
       addNotification('CSV file downloaded successfully!', 'success');
     }
-  }, [mcqs, pdfData, addNotification]);
+  }, [mcqs, passages, pdfData, labelStyle, addNotification]);
 
   const handleSaveProject = useCallback(() => {
     if (currentFileId && pdfData && (boundingBoxes.length > 0 || mcqs.length > 0)) {
@@ -312,27 +605,66 @@ export default function Home() {
           currentFileId,
           pdfData.file.name,
           mcqs,
-          boundingBoxes
+          boundingBoxes,
+          passages
         );
         addNotification('Project saved successfully!', 'success');
       } catch (error) {
         addNotification('Failed to save project', 'error');
       }
     }
-  }, [currentFileId, pdfData, mcqs, boundingBoxes, addNotification]);
+  }, [currentFileId, pdfData, mcqs, boundingBoxes, passages, addNotification]);
+
+  const handlePromptProfilesChange = useCallback((profiles: PromptProfile[]) => {
+    setCustomPromptProfiles(profiles);
+    LocalStorage.saveCustomPromptProfiles(profiles);
+  }, []);
+
+  const handlePromptProfileSelectionChange = useCallback((selection: PromptProfileSelection) => {
+    setPromptProfileSelection(selection);
+    if (currentFileId) {
+      LocalStorage.savePromptProfileSelection(currentFileId, selection);
+    }
+  }, [currentFileId]);
+
+  // Imported profiles replace custom profiles with the same id
+  const handleImportPromptLibrary = useCallback(async (file: File) => {
+    try {
+      const imported = parsePromptLibrary(await file.text());
+      const profiles = [
+        ...customPromptProfiles.filter(profile => !imported.some(importedProfile => importedProfile.id === profile.id)),
+        ...imported,
+      ];
+      handlePromptProfilesChange(profiles);
+      addNotification(`Imported ${imported.length} prompt profiles`, 'success');
+    } catch (error) {
+      addNotification('Import failed: ' + (error as Error).message, 'error');
+    }
+  }, [customPromptProfiles, handlePromptProfilesChange, addNotification]);
+
+  const handleExportPromptLibrary = useCallback(() => {
+    LocalStorage.exportPromptLibrary(customPromptProfiles);
+    addNotification('Prompt library downloaded successfully!', 'success');
+  }, [customPromptProfiles, addNotification]);
 
   const handleReset = useCallback(() => {
     if (currentFileId) {
       LocalStorage.deleteFile(currentFileId);
     }
+    setPendingRun(LocalStorage.getExtractionRun());
     setPdfData(null);
+    pdfDocRef.current = null;
     setBoundingBoxes([]);
     setMcqs([]);
+    setPassages([]);
+    setAnswerKeyReport(null);
     setCurrentFileId(null);
     setCurrentStep('upload');
     addNotification('Project reset successfully', 'info');
   }, [currentFileId, addNotification]);
 
+  const boxNames = getBoxNames(boundingBoxes);
+
   const handleGoBack = () => {
     if (currentStep === 'edit') {
       setCurrentStep('select');
@@ -381,46 +713,14 @@ export default function Home() {
 
           {/* Progress Modal */}
           {extractionProgress && (
-            <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-              <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
-                <div className="text-center">
-                  <Brain className="h-12 w-12 text-blue-600 mx-auto mb-4 animate-pulse" />
-                  <h3 className="text-lg font-semibold text-gray-900 mb-2">
-                    {extractionProgress.stage === 'processing' ? 'Processing PDF...' :
-                     extractionProgress.stage === 'extracting' ? 'Gemini AI Extracting...' :
-                     extractionProgress.stage === 'formatting' ? 'Formatting Results...' :
-                     extractionProgress.error ? 'Extraction Error' :
-                     'Complete!'}
-                  </h3>
-                  
-                  <div className="w-full bg-gray-200 rounded-full h-2 mb-4">
-                    <div
-                      className={`h-2 rounded-full transition-all duration-300 ${
-                        extractionProgress.error ? 'bg-red-500' : 'bg-blue-600'
-                      }`}
-                      style={{ width: `${(extractionProgress.current / extractionProgress.total) * 100}%` }}
-                    ></div>
-                  </div>
-                  
-                  <p className="text-sm text-gray-600 mb-2">
-                    {extractionProgress.currentItem || `${extractionProgress.current} of ${extractionProgress.total}`}
-                  </p>
-
-                  {extractionProgress.error && (
-                    <div className="bg-red-50 border border-red-200 rounded p-3 mt-3">
-                      <p className="text-xs text-red-700">{extractionProgress.error}</p>
-                    </div>
-                  )}
-
-                  {extractionProgress.stage === 'complete' && !extractionProgress.error && (
-                    <div className="flex items-center justify-center space-x-1 text-green-600 mt-2">
-                      <CheckCircle className="h-4 w-4" />
-                      <span className="text-sm font-medium">Extraction completed!</span>
-                    </div>
-                  )}
-                </div>
-              </div>
-            </div>
+            <ExtractionProgressModal
+              progress={extractionProgress}
+              title={EXTRACTION_PROVIDERS[selectedProvider].name}
+              onPause={() => extractionQueueRef.current?.pause()}
+              onResume={() => extractionQueueRef.current?.resume()}
+              onCancel={() => extractionQueueRef.current?.cancel()}
+              onClose={() => setExtractionProgress(null)}
+            />
           )}
 
           {/* Header */}
@@ -469,6 +769,9 @@ export default function Home() {
                   <ApiKeyManager
                     onApiKeySet={handleApiKeySet}
                     currentApiKey={geminiApiKey}
+                    settings={geminiSettings}
+                    onSettingsChange={handleGeminiSettingsChange}
+                    proxyStatus={geminiProxy}
                   />
                 </div>
               )}
@@ -482,6 +785,7 @@ export default function Home() {
                       setPdfData(null);
                       setBoundingBoxes([]);
                       setMcqs([]);
+                      setPassages([]);
                     }}
                     className={`flex items-center space-x-2 px-4 py-2 rounded-full text-sm transition-colors ${
                       currentStep === 'upload' 
@@ -552,6 +856,17 @@ export default function Home() {
                   
                   {mcqs.length > 0 && (
                     <>
+                      <select
+                        value={labelStyle}
+                        onChange={(e) => setLabelStyle(e.target.value as LabelStyle)}
+                        className="px-2 py-2 border border-gray-300 rounded-lg text-sm text-gray-700"
+                        title={`Export labels: ${LABEL_STYLES[labelStyle].description}`}
+                      >
+                        {Object.values(LABEL_STYLES).map(style => (
+                          <option key={style.id} value={style.id}>Labels: {style.name}</option>
+                        ))}
+                      </select>
+
                       <button
                         onClick={handleDownloadJSON}
                         className="flex items-center space-x-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
@@ -586,6 +901,38 @@ export default function Home() {
 
           {/* Main Content */}
           <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+            {/* Resume Banner */}
+            {pendingRun && !isLoading && (
+              <div className="max-w-2xl mx-auto mb-8">
+                <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+                  <div className="flex items-start space-x-3">
+                    <RotateCcw className="h-5 w-5 text-blue-600 mt-0.5 flex-shrink-0" />
+                    <div>
+                      <h3 className="text-sm font-medium text-blue-800">Unfinished Extraction</h3>
+                      <p className="text-sm text-blue-700 mt-1">
+                        {pendingRun.fileName}: {pendingRun.mcqs.length} of {pendingRun.boundingBoxes.filter(bbox => bbox.type === 'question' && !bbox.suggested).length} questions
+                        extracted, last updated {new Date(pendingRun.timestamp).toLocaleString()}.
+                      </p>
+                      <div className="mt-2 flex space-x-4">
+                        <button
+                          onClick={handleResumeExtraction}
+                          className="text-sm text-blue-800 underline hover:text-blue-900"
+                        >
+                          Resume extraction
+                        </button>
+                        <button
+                          onClick={handleDiscardRun}
+                          className="text-sm text-blue-800 underline hover:text-blue-900"
+                        >
+                          Discard
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            )}
+
             {currentStep === 'upload' && (
               <div className="space-y-8">
                 {/* API Key Warning if not configured */}
@@ -595,9 +942,9 @@ export default function Home() {
                       <div className="flex items-start space-x-3">
                         <AlertCircle className="h-5 w-5 text-amber-600 mt-0.5 flex-shrink-0" />
                         <div>
-                          <h3 className="text-sm font-medium text-amber-800">Gemini API Key Required</h3>
+                          <h3 className="text-sm font-medium text-amber-800">Gemini API Key Not Configured</h3>
                           <p className="text-sm text-amber-700 mt-1">
-                            Please configure your Gemini API key to enable advanced text extraction and OCR capabilities.
+                            You can still extract offline with Tesseract OCR or the PDF text layer. Configure a Gemini API key for the most accurate extraction of mathematical content.
                           </p>
                           <button
                             onClick={() => setShowApiKeyManager(true)}
@@ -646,49 +993,32 @@ export default function Home() {
                       </div>
                     </div>
                     
-                    <div className={`border-2 border-dashed rounded-xl p-12 transition-colors bg-white ${
-                      geminiApiKey 
-                        ? 'border-blue-300 hover:border-blue-400' 
-                        : 'border-gray-300 opacity-75'
-                    }`}>
+                    <div className="border-2 border-dashed rounded-xl p-12 transition-colors bg-white border-blue-300 hover:border-blue-400">
                       <input
                         type="file"
                         accept=".pdf"
                         onChange={(e) => {
                           const file = e.target.files?.[0];
                           if (file) {
-                            if (!geminiApiKey) {
-                              addNotification('Please configure Gemini API key first', 'error');
-                              setShowApiKeyManager(true);
-                              return;
-                            }
                             handleFileUpload(file);
                           }
                         }}
                         className="hidden"
                         id="pdf-upload"
-                        disabled={isLoading || !geminiApiKey}
+                        disabled={isLoading}
                       />
                       <label
                         htmlFor="pdf-upload"
-                        className={`cursor-pointer flex flex-col items-center ${
-                          !geminiApiKey ? 'cursor-not-allowed' : ''
-                        }`}
+                        className="cursor-pointer flex flex-col items-center"
                       >
-                        <Upload className={`h-12 w-12 mb-4 ${
-                          geminiApiKey ? 'text-blue-400' : 'text-gray-300'
-                        }`} />
-                        <span className={`text-xl font-semibold mb-2 ${
-                          geminiApiKey ? 'text-gray-700' : 'text-gray-400'
-                        }`}>
-                          {isLoading ? 'Processing PDF...' : 
-                           !geminiApiKey ? 'Configure API Key First' :
-                           'Choose PDF File'}
+                        <Upload className="h-12 w-12 mb-4 text-blue-400" />
+                        <span className="text-xl font-semibold mb-2 text-gray-700">
+                          {isLoading ? 'Processing PDF...' : 'Choose PDF File'}
                         </span>
                         <span className="text-sm text-gray-500">
                           {geminiApiKey 
                             ? 'Maximum size: 500MB • Enhanced by Gemini AI' 
-                            : 'Gemini API key required for extraction'}
+                            : 'Maximum size: 500MB • Offline extraction available'}
                         </span>
                       </label>
                     </div>
@@ -706,10 +1036,57 @@ export default function Home() {
                     onBoundingBoxCreate={handleBoundingBoxCreate}
                     onBoundingBoxUpdate={handleBoundingBoxUpdate}
                     onBoundingBoxDelete={handleBoundingBoxDelete}
+                    onPageChange={setViewerPage}
                   />
                 </div>
                 
                 <div className="space-y-6">
+                  <ProviderSelector
+                    selectedProvider={selectedProvider}
+                    onProviderChange={setSelectedProvider}
+                    hasApiKey={!!geminiApiKey}
+                    geminiModel={isProxyApiKey(geminiApiKey) ? withProxyBaseUrl(geminiSettings, geminiProxy).model : geminiSettings.model}
+                    extractionDpi={extractionDpi}
+                    onExtractionDpiChange={setExtractionDpi}
+                    concurrency={extractionConcurrency}
+                    onConcurrencyChange={setExtractionConcurrency}
+                    budget={usageBudget}
+                    onBudgetChange={setUsageBudget}
+                    disabled={isLoading}
+                  />
+
+                  {geminiApiKey && (
+                    <CachePanel
+                      bypassCache={bypassCache}
+                      onBypassCacheChange={setBypassCache}
+                      disabled={isLoading}
+                    />
+                  )}
+
+                  {geminiApiKey && (
+                    <PromptProfilePanel
+                      profiles={getPromptLibrary(customPromptProfiles)}
+                      selection={promptProfileSelection}
+                      currentPage={viewerPage}
+                      onProfilesChange={handlePromptProfilesChange}
+                      onSelectionChange={handlePromptProfileSelectionChange}
+                      onImport={handleImportPromptLibrary}
+                      onExport={handleExportPromptLibrary}
+                      disabled={isLoading}
+                    />
+                  )}
+
+                  <AutoDetectPanel
+                    currentPage={viewerPage}
+                    numPages={pdfData.numPages}
+                    hasApiKey={!!geminiApiKey}
+                    suggestionCount={boundingBoxes.filter(b => b.suggested).length}
+                    isDetecting={isDetecting}
+                    onDetect={handleAutoDetect}
+                    onAcceptAll={handleAcceptAllSuggestions}
+                    onRejectAll={handleRejectAllSuggestions}
+                  />
+
                   <div className="bg-white rounded-lg shadow-sm p-6">
                     <h3 className="text-lg font-semibold text-gray-900 mb-4">
                       Selection Guide
@@ -721,9 +1098,29 @@ export default function Home() {
                       </div>
                       <div className="flex items-start space-x-2">
                         <div className="w-3 h-3 bg-green-500 rounded mt-1"></div>
-                        <span>Draw boxes around <strong>options</strong></span>
+                        <span>Draw boxes around <strong>options</strong>; they attach to the question they are drawn in or below</span>
+                      </div>
+                      <div className="flex items-start space-x-2">
+                        <div className="w-3 h-3 bg-purple-500 rounded mt-1"></div>
+                        <span>Draw boxes around <strong>figures</strong>; they attach to the nearest question or option</span>
+                      </div>
+                      <div className="flex items-start space-x-2">
+                        <div className="w-3 h-3 bg-teal-500 rounded mt-1"></div>
+                        <span>Draw boxes around worked <strong>solutions</strong>; they attach to the question above them</span>
+                      </div>
+                      <div className="flex items-start space-x-2">
+                        <div className="w-3 h-3 bg-orange-500 rounded mt-1"></div>
+                        <span>Draw a box around a shared <strong>passage</strong> first; questions drawn below it are linked to it</span>
+                      </div>
+                      <div className="flex items-start space-x-2">
+                        <div className="w-3 h-3 bg-rose-500 rounded mt-1"></div>
+                        <span>Mark the <strong>answer key</strong> so answers can be filled in after extraction</span>
                       </div>
                       <p className="mt-4 text-xs">
+                        A question, option or passage that runs on into the next column or page: click the
+                        arrow on its label, then draw the rest. The pieces are joined before extraction.
+                      </p>
+                      <p className="text-xs">
                         Click and drag to create selection boxes. 
                         Boxes can be moved after creation. Double-click to delete.
                       </p>
@@ -743,10 +1140,81 @@ export default function Home() {
                           >
                             <div className="flex items-center space-x-2">
                               <div className={`w-3 h-3 rounded ${
-                                bbox.type === 'question' ? 'bg-blue-500' : 'bg-green-500'
+                                bbox.suggested ? 'bg-amber-500' :
+                                bbox.type === 'question' ? 'bg-blue-500' :
+                                bbox.type === 'figure' ? 'bg-purple-500' :
+                                bbox.type === 'solution' ? 'bg-teal-500' :
+                                bbox.type === 'passage' ? 'bg-orange-500' :
+                                bbox.type === 'answer-key' ? 'bg-rose-500' : 'bg-green-500'
                               }`}></div>
                               <span className="text-sm capitalize">{bbox.type}</span>
                               <span className="text-xs text-gray-500">Page {bbox.page}</span>
+                              {bbox.suggested && (
+                                <span className="text-xs text-amber-700">Suggested</span>
+                              )}
+                              {(bbox.continuations ?? []).length > 0 && (
+                                <span
+                                  className="text-xs text-gray-500"
+                                  title={`Continues on page ${(bbox.continuations ?? []).map(region => region.page).join(', ')}`}
+                                >
+                                  +{(bbox.continuations ?? []).length} cont.
+                                </span>
+                              )}
+                              {bbox.type === 'question' && (
+                                <select
+                                  value={bbox.questionType ?? 'single'}
+                                  onChange={(e) => {
+                                    const questionType = e.target.value as QuestionType;
+                                    handleBoundingBoxUpdate(bbox.id, { questionType: questionType === 'single' ? undefined : questionType });
+                                  }}
+                                  title={QUESTION_TYPES[bbox.questionType ?? 'single'].description}
+                                  className="text-xs border border-gray-300 rounded px-1 py-0.5 max-w-[9rem]"
+                                >
+                                  {Object.values(QUESTION_TYPES).map(info => (
+                                    <option key={info.id} value={info.id}>{info.name}</option>
+                                  ))}
+                                </select>
+                              )}
+                              {bbox.type === 'question' && boundingBoxes.some(passage => passage.type === 'passage' && !passage.suggested) && (
+                                <select
+                                  value={bbox.passageId ?? ''}
+                                  onChange={(e) => handleBoundingBoxUpdate(bbox.id, { passageId: e.target.value || undefined })}
+                                  title="Passage this question is read with"
+                                  className="text-xs border border-gray-300 rounded px-1 py-0.5 max-w-[9rem]"
+                                >
+                                  <option value="">No passage</option>
+                                  {boundingBoxes
+                                    .filter(passage => passage.type === 'passage' && !passage.suggested)
+                                    .map(passage => (
+                                      <option key={passage.id} value={passage.id}>
+                                        {boxNames[passage.id]} p.{passage.page}
+                                      </option>
+                                    ))}
+                                </select>
+                              )}
+                              {(bbox.type === 'figure' || bbox.type === 'solution' || (bbox.type === 'option' && !bbox.suggested)) && (
+                                <select
+                                  value={bbox.parentId ?? ''}
+                                  onChange={(e) => handleBoundingBoxUpdate(bbox.id, { parentId: e.target.value || undefined })}
+                                  title={bbox.type === 'figure'
+                                    ? 'Question or option this figure belongs to'
+                                    : bbox.type === 'option'
+                                      ? 'Question this option belongs to'
+                                      : 'Question this solution explains'}
+                                  className="text-xs border border-gray-300 rounded px-1 py-0.5 max-w-[9rem]"
+                                >
+                                  <option value="">{bbox.type === 'figure' ? 'Auto (nearest box)' : 'Auto (question above)'}</option>
+                                  {boundingBoxes
+                                    .filter(parent => (parent.type === 'question' || (parent.type === 'option' && bbox.type === 'figure')) && !parent.suggested)
+                                    // Options are read from their question's page, so they can only link to questions on it
+                                    .filter(parent => bbox.type !== 'option' || parent.page === bbox.page)
+                                    .map(parent => (
+                                      <option key={parent.id} value={parent.id}>
+                                        {boxNames[parent.id]} p.{parent.page}
+                                      </option>
+                                    ))}
+                                </select>
+                              )}
                             </div>
                             <button
                               onClick={() => handleBoundingBoxDelete(bbox.id)}
@@ -758,9 +1226,9 @@ export default function Home() {
                         ))}
                       </div>
                       
-                      {boundingBoxes.filter(b => b.type === 'question').length > 0 && (
+                      {boundingBoxes.filter(b => b.type === 'question' && !b.suggested).length > 0 && (
                         <div className="mt-4 space-y-3">
-                          {!geminiApiKey && (
+                          {EXTRACTION_PROVIDERS[selectedProvider].requiresApiKey && !geminiApiKey && (
                             <div className="bg-red-50 border border-red-200 rounded p-3">
                               <p className="text-xs text-red-700 mb-2">
                                 Gemini API key required for extraction
@@ -776,11 +1244,15 @@ export default function Home() {
                           
                           <button
                             onClick={handleExtractText}
-                            disabled={isLoading || !geminiApiKey}
+                            disabled={isLoading || (EXTRACTION_PROVIDERS[selectedProvider].requiresApiKey && !geminiApiKey)}
                             className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center justify-center space-x-2"
                           >
                             <Brain className="h-4 w-4" />
-                            <span>{isLoading ? 'Extracting with Gemini...' : 'Extract with Gemini AI'}</span>
+                            <span>
+                              {isLoading
+                                ? `Extracting with ${EXTRACTION_PROVIDERS[selectedProvider].name}...`
+                                : `Extract with ${EXTRACTION_PROVIDERS[selectedProvider].name}`}
+                            </span>
                           </button>
                         </div>
                       )}
@@ -801,17 +1273,32 @@ export default function Home() {
             )}
 
             {currentStep === 'edit' && (
-              <MCQEditor
-                mcqs={mcqs}
-                onMCQUpdate={(id, updates) => {
-                  setMcqs(prev => 
-                    prev.map(mcq => mcq.id === id ? { ...mcq, ...updates } : mcq)
-                  );
-                }}
-                onMCQDelete={(id) => {
-                  setMcqs(prev => prev.filter(mcq => mcq.id !== id));
-                }}
-              />
+              <div className="space-y-6">
+                <AnswerKeyPanel
+                  markedRegionCount={boundingBoxes.filter(bbox => bbox.type === 'answer-key' && !bbox.suggested).length}
+                  isApplying={isApplyingAnswerKey}
+                  report={answerKeyReport}
+                  onApply={handleApplyAnswerKey}
+                />
+                <MCQEditor
+                  mcqs={mcqs}
+                  passages={passages}
+                  promptProfiles={getPromptLibrary(customPromptProfiles)}
+                  onPassageUpdate={(id, text) => {
+                    setPassages(prev =>
+                      prev.map(passage => passage.id === id ? { ...passage, text } : passage)
+                    );
+                  }}
+                  onMCQUpdate={(id, updates) => {
+                    setMcqs(prev => 
+                      prev.map(mcq => mcq.id === id ? { ...mcq, ...updates } : mcq)
+                    );
+                  }}
+                  onMCQDelete={(id) => {
+                    setMcqs(prev => prev.filter(mcq => mcq.id !== id));
+                  }}
+                />
+              </div>
             )}
           </div>
         </div>
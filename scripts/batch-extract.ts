@@ -0,0 +1,482 @@
+// scripts/batch-extract.ts
+// Extracts MCQs from a batch of PDFs without the UI, reusing the same
+// providers, layout detection and exporters. Run with `npm run batch -- --help`.
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { runExtractionPipeline } from '../lib/extraction-pipeline';
+import { getExportBaseName, serializeMCQsAsCSV, serializeMCQsAsJSON } from '../lib/export-utils';
+import { JobQueue } from '../lib/job-queue';
+import { DEFAULT_LABEL_STYLE, LABEL_STYLES } from '../lib/label-utils';
+import type { LabelStyle } from '../lib/label-utils';
+import { LAYOUT_DETECTORS, createLayoutDetector, detectLayout, getPageRange } from '../lib/layout-detection';
+import { parsePromptLibrary, parsePromptProfileRequest } from '../lib/prompt-profiles';
+import type { PromptProfile, PromptProfileSelection } from '../lib/prompt-profiles';
+import { createServerProvider, getServerGeminiSettings, resolveServerProvider } from '../lib/server-extraction';
+import { installNodeCanvas, loadPDFFromPath } from '../lib/server-pdf-utils';
+import { addUsage, emptyUsage, formatUsage, getBudgetWarning, isBudgetExceeded } from '../lib/usage-utils';
+import type {
+  BoundingBox,
+  ExtractionProgress,
+  ExtractionProviderId,
+  LayoutDetectorId,
+  MCQ,
+  Passage,
+  TokenUsage,
+  UsageBudget
+} from '../lib/types';
+
+const USAGE = `Usage: npm run batch -- <pdf or folder>... [options]
+
+Options:
+  --out <dir>             Output folder (default: ./extraction-output)
+  --layout <file|dir>     Box layout JSON for a single PDF, or a folder of <pdf name>.json files.
+                          Without it, <pdf name>.boxes.json next to each PDF is used when present
+  --auto-detect           Detect question and option boxes for PDFs that have no layout
+  --detector <id>         Layout detector: heuristic (default) or gemini
+  --provider <id>         gemini, tesseract, text-layer or hybrid (default: EXTRACTION_PROVIDER or hybrid)
+  --api-key <key>         Gemini API key (default: GEMINI_API_KEY)
+  --model <name>          Gemini model (default: GEMINI_MODEL or gemini-1.5-flash)
+  --base-url <url>        Gemini endpoint (default: GEMINI_BASE_URL)
+  --dpi <n>               Render resolution for vision providers (default: 150)
+  --concurrency <n>       Questions extracted in parallel per PDF (default: 2)
+  --format <list>         Comma-separated output formats: json,csv (default: json,csv)
+  --prompt-profile <id>   Gemini prompt profile: math (default), chemistry, code, plain-text or a library profile
+  --prompt-library <file> Prompt library exported from the app, adding its profiles to the built-in ones
+  --labels <style>        Question numbers and option labels: source (as printed, default) or normalized
+  --min-confidence <n>    Report questions below this confidence (default: 70)
+  --max-tokens <n>        Stop the batch once it has used this many tokens
+  --max-cost <usd>        Stop the batch once it has cost this much
+  --help                  Show this message
+
+Exits with status 1 if any PDF or question failed.`;
+
+const DEFAULT_OUTPUT_DIR = 'extraction-output';
+const DEFAULT_MIN_CONFIDENCE = 70;
+
+// Batch summary, written next to the exports as summary.json
+const SUMMARY_NAME = 'summary';
+
+interface BatchOptions {
+  inputs: string[];
+  outDir: string;
+  layout?: string;
+  autoDetect: boolean;
+  detectorId: LayoutDetectorId;
+  providerId: ExtractionProviderId;
+  geminiKey?: string;
+  model?: string;
+  baseUrl?: string;
+  dpi?: number;
+  concurrency?: number;
+  formats: string[];
+  promptProfiles: PromptProfile[];
+  promptProfileSelection: PromptProfileSelection;
+  labelStyle: LabelStyle;
+  minConfidence: number;
+  budget?: UsageBudget;
+}
+
+interface ReportItem {
+  id: string;
+  page?: number;
+  label: string;
+  reasons: string[];
+}
+
+interface FileReport {
+  file: string;
+  questions: number;
+  extracted: number;
+  outputs: string[];
+  failed: ReportItem[];
+  lowConfidence: ReportItem[];
+  usage: TokenUsage;
+  error?: string;
+}
+
+const parseNumber = (value: string | undefined, flag: string): number | undefined => {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`${flag} must be a positive number, got "${value}"`);
+  }
+  return parsed;
+};
+
+const parseOptions = (argv: string[]): BatchOptions | null => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      out: { type: 'string' },
+      layout: { type: 'string' },
+      'auto-detect': { type: 'boolean' },
+      detector: { type: 'string' },
+      provider: { type: 'string' },
+      'api-key': { type: 'string' },
+      model: { type: 'string' },
+      'base-url': { type: 'string' },
+      dpi: { type: 'string' },
+      concurrency: { type: 'string' },
+      format: { type: 'string' },
+      'prompt-profile': { type: 'string' },
+      'prompt-library': { type: 'string' },
+      labels: { type: 'string' },
+      'min-confidence': { type: 'string' },
+      'max-tokens': { type: 'string' },
+      'max-cost': { type: 'string' },
+      help: { type: 'boolean' },
+    },
+  });
+
+  if (values.help || positionals.length === 0) {
+    return null;
+  }
+
+  const detectorId = values.detector ?? 'heuristic';
+  if (!(detectorId in LAYOUT_DETECTORS)) {
+    throw new Error(`Unknown detector "${detectorId}". Expected one of: ${Object.keys(LAYOUT_DETECTORS).join(', ')}`);
+  }
+
+  const formats = (values.format ?? 'json,csv').split(',').map(format => format.trim()).filter(Boolean);
+  const unknownFormat = formats.find(format => format !== 'json' && format !== 'csv');
+  if (unknownFormat) {
+    throw new Error(`Unknown format "${unknownFormat}". Expected json and/or csv`);
+  }
+
+  const labelStyle = values.labels ?? DEFAULT_LABEL_STYLE;
+  if (!(labelStyle in LABEL_STYLES)) {
+    throw new Error(`Unknown label style "${labelStyle}". Expected one of: ${Object.keys(LABEL_STYLES).join(', ')}`);
+  }
+
+  const library = values['prompt-library']
+    ? parsePromptLibrary(fs.readFileSync(values['prompt-library'], 'utf8'))
+    : undefined;
+  const { promptProfiles, promptProfileSelection } = parsePromptProfileRequest(
+    library,
+    values['prompt-profile'] ? { defaultId: values['prompt-profile'], pages: {} } : undefined
+  );
+
+  const { providerId, geminiKey } = resolveServerProvider({
+    provider: values.provider,
+    apiKey: values['api-key'],
+  });
+
+  const maxTokens = parseNumber(values['max-tokens'], '--max-tokens');
+  const maxCostUsd = parseNumber(values['max-cost'], '--max-cost');
+
+  return {
+    inputs: positionals,
+    outDir: values.out ?? DEFAULT_OUTPUT_DIR,
+    layout: values.layout,
+    autoDetect: values['auto-detect'] ?? false,
+    detectorId: detectorId as LayoutDetectorId,
+    providerId,
+    geminiKey,
+    model: values.model,
+    baseUrl: values['base-url'],
+    dpi: parseNumber(values.dpi, '--dpi'),
+    concurrency: parseNumber(values.concurrency, '--concurrency'),
+    formats,
+    promptProfiles,
+    promptProfileSelection,
+    labelStyle: labelStyle as LabelStyle,
+    minConfidence: parseNumber(values['min-confidence'], '--min-confidence') ?? DEFAULT_MIN_CONFIDENCE,
+    budget: maxTokens !== undefined || maxCostUsd !== undefined ? { maxTokens, maxCostUsd } : undefined,
+  };
+};
+
+// Folders are expanded to the PDFs directly inside them, in name order
+const collectPDFs = (inputs: string[]): string[] => {
+  return inputs.flatMap(input => {
+    if (!fs.existsSync(input)) {
+      throw new Error(`Input not found: ${input}`);
+    }
+    if (fs.statSync(input).isDirectory()) {
+      return fs.readdirSync(input)
+        .filter(name => name.toLowerCase().endsWith('.pdf'))
+        .sort()
+        .map(name => path.join(input, name));
+    }
+    return [input];
+  });
+};
+
+// Output names for each PDF, in the same order. PDFs from different folders
+// can share a name, so repeats get "-2", "-3"... rather than overwriting each
+// other; "summary" is taken by the batch summary. Compared case-insensitively
+// for filesystems that are.
+const getOutputNames = (pdfPaths: string[]): string[] => {
+  const taken = new Set<string>([SUMMARY_NAME]);
+  return pdfPaths.map(pdfPath => {
+    const baseName = getExportBaseName(path.basename(pdfPath));
+    let name = baseName;
+    for (let counter = 2; taken.has(name.toLowerCase()); counter++) {
+      name = `${baseName}-${counter}`;
+    }
+    taken.add(name.toLowerCase());
+    return name;
+  });
+};
+
+const findLayoutFile = (pdfPath: string, layout: string | undefined, pdfCount: number): string | null => {
+  const baseName = path.basename(pdfPath, path.extname(pdfPath));
+
+  if (layout) {
+    if (fs.statSync(layout).isDirectory()) {
+      const candidate = path.join(layout, `${baseName}.json`);
+      return fs.existsSync(candidate) ? candidate : null;
+    }
+    if (pdfCount > 1) {
+      throw new Error('--layout must be a folder when extracting more than one PDF');
+    }
+    return layout;
+  }
+
+  const sibling = path.join(path.dirname(pdfPath), `${baseName}.boxes.json`);
+  return fs.existsSync(sibling) ? sibling : null;
+};
+
+// Accepts a plain array of boxes or anything with a boundingBoxes field, such as a saved run
+const readLayout = (layoutPath: string): BoundingBox[] => {
+  const parsed = JSON.parse(fs.readFileSync(layoutPath, 'utf8'));
+  const boxes: BoundingBox[] = Array.isArray(parsed) ? parsed : parsed?.boundingBoxes;
+
+  if (!Array.isArray(boxes) || !boxes.every(bbox => bbox && bbox.id && typeof bbox.page === 'number')) {
+    throw new Error(`${layoutPath} is not a list of bounding boxes with ids and pages`);
+  }
+  return boxes;
+};
+
+const remainingBudget = (budget: UsageBudget | undefined, spent: TokenUsage): UsageBudget | undefined => {
+  if (!budget) return undefined;
+  return {
+    maxTokens: budget.maxTokens !== undefined ? budget.maxTokens - spent.totalTokens : undefined,
+    maxCostUsd: budget.maxCostUsd !== undefined ? budget.maxCostUsd - spent.costUsd : undefined,
+  };
+};
+
+const getReviewReasons = (mcq: MCQ, passages: Passage[], minConfidence: number): string[] => {
+  const reasons: string[] = [];
+  if (mcq.confidence !== undefined && mcq.confidence < minConfidence) {
+    reasons.push(`confidence ${mcq.confidence}`);
+  }
+  if (mcq.validationStatus === 'failed') {
+    reasons.push(`validation failed${mcq.validationError ? `: ${mcq.validationError}` : ''}`);
+  } else if (mcq.validationStatus === 'repaired') {
+    reasons.push('response needed repair');
+  }
+  if (mcq.options.some(option => !option.trim())) {
+    reasons.push('blank options');
+  }
+  if (mcq.questionType === 'match' && ((mcq.matchLeft ?? []).length === 0 || (mcq.matchRight ?? []).length === 0)) {
+    reasons.push('match columns missing');
+  }
+  if (mcq.passageId && !passages.some(passage => passage.id === mcq.passageId && passage.text)) {
+    reasons.push('passage empty');
+  }
+  return reasons;
+};
+
+const emptyReport = (file: string, error?: string): FileReport => ({
+  file,
+  questions: 0,
+  extracted: 0,
+  outputs: [],
+  failed: [],
+  lowConfidence: [],
+  usage: emptyUsage(),
+  error,
+});
+
+const log = (message: string) => process.stderr.write(`${message}\n`);
+
+const processPDF = async (
+  pdfPath: string,
+  outputName: string,
+  pdfCount: number,
+  options: BatchOptions,
+  spent: TokenUsage
+): Promise<FileReport> => {
+  const fileName = path.basename(pdfPath);
+  const report = emptyReport(pdfPath);
+
+  const pdf = await loadPDFFromPath(pdfPath);
+  const { provider, geminiExtractor } = createServerProvider(options.providerId, pdf, options.geminiKey, {
+    ...(options.model ? { model: options.model } : {}),
+    ...(options.baseUrl ? { baseUrl: options.baseUrl } : {}),
+  });
+
+  try {
+    const layoutPath = findLayoutFile(pdfPath, options.layout, pdfCount);
+    let boxes: BoundingBox[];
+
+    if (layoutPath) {
+      boxes = readLayout(layoutPath);
+      log(`${fileName}: using layout ${layoutPath}`);
+    } else if (options.autoDetect) {
+      const detector = createLayoutDetector(options.detectorId, { geminiExtractor, pdf });
+      const suggestions = await detectLayout({
+        pdf,
+        pages: getPageRange(1, pdf.numPages, pdf.numPages),
+        detector,
+      });
+      // Suggestions are normally reviewed in the UI first; here they are taken as detected
+      boxes = suggestions.map(bbox => ({ ...bbox, suggested: false }));
+      log(`${fileName}: detected ${boxes.filter(bbox => bbox.type === 'question').length} questions`);
+    } else {
+      throw new Error('No layout file found; pass --layout or --auto-detect');
+    }
+
+    let lastProgress: ExtractionProgress | null = null;
+    const result = await runExtractionPipeline({
+      pdf,
+      boundingBoxes: boxes,
+      provider,
+      dpi: options.dpi,
+      queue: new JobQueue<MCQ>({ concurrency: options.concurrency }),
+      budget: remainingBudget(options.budget, spent),
+      promptProfiles: options.promptProfiles,
+      promptProfileSelection: options.promptProfileSelection,
+      onProgress: progress => {
+        if (progress.current !== lastProgress?.current) {
+          log(`${fileName}: ${progress.currentItem ?? `${progress.current} of ${progress.total}`}`);
+        }
+        lastProgress = progress;
+      },
+    });
+
+    const items = (lastProgress as ExtractionProgress | null)?.items ?? [];
+    report.questions = boxes.filter(bbox => bbox.type === 'question' && !bbox.suggested).length;
+    report.extracted = result.mcqs.length;
+    report.usage = result.usage;
+    report.failed = items
+      .filter(item => item.status === 'failed' || item.status === 'cancelled')
+      .map(item => ({
+        id: item.id,
+        label: item.label,
+        reasons: [item.status === 'cancelled' ? 'cancelled: budget reached' : item.error ?? 'failed'],
+      }));
+    report.lowConfidence = result.mcqs
+      .map(mcq => ({
+        id: mcq.id,
+        page: mcq.page,
+        label: mcq.question.length > 80 ? `${mcq.question.slice(0, 77)}...` : mcq.question,
+        reasons: getReviewReasons(mcq, result.passages, options.minConfidence),
+      }))
+      .filter(item => item.reasons.length > 0);
+
+    const baseName = path.join(options.outDir, outputName);
+    if (options.formats.includes('json')) {
+      fs.writeFileSync(`${baseName}.json`, serializeMCQsAsJSON(result.mcqs, fileName, result.passages, options.labelStyle));
+      report.outputs.push(`${baseName}.json`);
+    }
+    if (options.formats.includes('csv')) {
+      fs.writeFileSync(`${baseName}.csv`, serializeMCQsAsCSV(result.mcqs, result.passages, options.labelStyle));
+      report.outputs.push(`${baseName}.csv`);
+    }
+
+    return report;
+  } finally {
+    await provider.dispose?.();
+    await pdf.destroy();
+  }
+};
+
+const printSummary = (reports: FileReport[], usage: TokenUsage, summaryPath: string) => {
+  const totalQuestions = reports.reduce((sum, report) => sum + report.questions, 0);
+  const totalExtracted = reports.reduce((sum, report) => sum + report.extracted, 0);
+
+  log('');
+  log(`Extracted ${totalExtracted} of ${totalQuestions} questions from ${reports.length} PDF${reports.length === 1 ? '' : 's'}`);
+  log(`Usage: ${formatUsage(usage)}`);
+
+  reports.forEach(report => {
+    if (report.error) {
+      log(`  ${report.file}: FAILED - ${report.error}`);
+      return;
+    }
+    if (report.failed.length === 0 && report.lowConfidence.length === 0) return;
+
+    log(`  ${report.file}: ${report.failed.length} failed, ${report.lowConfidence.length} to review`);
+    report.failed.forEach(item => log(`    failed  ${item.label}: ${item.reasons.join('; ')}`));
+    report.lowConfidence.forEach(item => log(`    review  p.${item.page} ${item.label} (${item.reasons.join('; ')})`));
+  });
+
+  log(`Summary written to ${summaryPath}`);
+};
+
+const main = async () => {
+  let options: BatchOptions | null;
+  try {
+    options = parseOptions(process.argv.slice(2));
+  } catch (error) {
+    log((error as Error).message);
+    log(USAGE);
+    process.exit(2);
+  }
+
+  if (!options) {
+    log(USAGE);
+    return;
+  }
+
+  const pdfPaths = collectPDFs(options.inputs);
+  if (pdfPaths.length === 0) {
+    throw new Error('No PDFs found in the given inputs');
+  }
+
+  const budgetWarning = getBudgetWarning(
+    getServerGeminiSettings(options.model ? { model: options.model } : {}).model,
+    options.budget
+  );
+  if (budgetWarning && options.geminiKey) {
+    log(budgetWarning);
+  }
+
+  fs.mkdirSync(options.outDir, { recursive: true });
+  installNodeCanvas();
+
+  const outputNames = getOutputNames(pdfPaths);
+  const reports: FileReport[] = [];
+  let usage = emptyUsage();
+
+  for (let index = 0; index < pdfPaths.length; index++) {
+    const pdfPath = pdfPaths[index];
+    if (isBudgetExceeded(usage, options.budget)) {
+      reports.push(emptyReport(pdfPath, 'Skipped: batch budget reached'));
+      continue;
+    }
+
+    try {
+      const report = await processPDF(pdfPath, outputNames[index], pdfPaths.length, options, usage);
+      usage = addUsage(usage, report.usage);
+      reports.push(report);
+    } catch (error) {
+      // One unreadable paper shouldn't stop an overnight batch
+      log(`${path.basename(pdfPath)}: ${(error as Error).message}`);
+      reports.push(emptyReport(pdfPath, (error as Error).message));
+    }
+  }
+
+  const summaryPath = path.join(options.outDir, `${SUMMARY_NAME}.json`);
+  fs.writeFileSync(summaryPath, JSON.stringify({
+    generatedAt: new Date().toISOString(),
+    provider: options.providerId,
+    minConfidence: options.minConfidence,
+    usage,
+    files: reports,
+  }, null, 2));
+
+  printSummary(reports, usage, summaryPath);
+
+  if (reports.some(report => report.error || report.failed.length > 0)) {
+    process.exitCode = 1;
+  }
+};
+
+main().catch(error => {
+  log((error as Error).message);
+  process.exit(1);
+});
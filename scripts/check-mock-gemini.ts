@@ -0,0 +1,161 @@
+// scripts/check-mock-gemini.ts
+// Drives GeminiExtractor against the mock Gemini server and its fixtures,
+// including the injected faults, so the offline setup is known to work. Run with
+// `npm run check:mock-gemini`; exits with status 1 if any check fails.
+import assert from 'assert';
+import http from 'http';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import { setCanvasFactory } from '../lib/canvas-utils';
+import { GeminiExtractor } from '../lib/gemini-utils';
+import { RateLimitError, RetryableError } from '../lib/job-queue';
+import { buildErrorBody, handleGenerateContent, parseMockPath } from '../lib/mock-gemini';
+import type { BoundingBox } from '../lib/types';
+
+// npm scripts run from the repository root, like the Next.js server
+const FIXTURES_DIR = path.join(process.cwd(), 'fixtures', 'gemini');
+
+// Short, so the timeout fault doesn't hold the check up
+const TIMEOUT_MS = 50;
+
+// A 1x1 white PNG. Fixtures are matched on the prompt through fallbacks.json, so
+// the crop's pixels don't matter and no native canvas build is needed.
+const BLANK_PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8/5+hHgAHggJ/PchI7wAAAABJRU5ErkJggg==';
+
+const createBlankCanvas = (width: number, height: number): HTMLCanvasElement => ({
+  width,
+  height,
+  getContext: () => ({ drawImage: () => undefined, fillRect: () => undefined, fillStyle: '' }),
+  toDataURL: () => `data:image/png;base64,${BLANK_PNG}`,
+}) as unknown as HTMLCanvasElement;
+
+const questionBox: BoundingBox = { id: 'q1', x: 0, y: 0, width: 400, height: 80, type: 'question', page: 1 };
+const optionBoxes: BoundingBox[] = [0, 1, 2, 3].map(index => ({
+  id: `o${index}`, x: 0, y: 90 + index * 30, width: 200, height: 25, type: 'option', page: 1,
+}));
+
+// The same handling as pages/api/mock-gemini, on a plain Node server
+const startMockServer = (): Promise<http.Server> => {
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', async () => {
+      const send = (status: number, json: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(json));
+      };
+
+      try {
+        const segments = (req.url ?? '').split('?')[0].split('/').filter(Boolean);
+        const result = await handleGenerateContent(
+          { ...parseMockPath(segments), body: JSON.parse(body) },
+          { fixturesDir: FIXTURES_DIR, timeoutMs: TIMEOUT_MS }
+        );
+        if (result.delayMs) {
+          await new Promise(resolve => setTimeout(resolve, result.delayMs));
+        }
+        send(result.status, result.body);
+      } catch (error) {
+        send(400, buildErrorBody(400, (error as Error).message));
+      }
+    });
+  });
+
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+};
+
+const checks: Array<{ name: string; run: (baseUrl: string) => Promise<void> }> = [
+  {
+    name: 'replays the fixture for a question with options',
+    run: async baseUrl => {
+      const extractor = new GeminiExtractor('mock-key', { settings: { model: 'gemini-1.5-flash', baseUrl } });
+      const result = await extractor.extractMCQFromCanvas(createBlankCanvas(400, 300), questionBox, optionBoxes);
+      assert.strictEqual(result.validationStatus, 'valid');
+      assert.strictEqual(result.question, 'What is the derivative of $f(x) = x^2 + 3x + 2$?');
+      assert.strictEqual(result.options.length, 4);
+      assert.strictEqual(result.usage?.requests, 1);
+    },
+  },
+  {
+    name: 'replays the fixture for plain text',
+    run: async baseUrl => {
+      const extractor = new GeminiExtractor('mock-key', { settings: { model: 'gemini-1.5-flash', baseUrl } });
+      const result = await extractor.extractTextFromCanvas(createBlankCanvas(400, 80), questionBox, 'question');
+      assert.strictEqual(result.text, 'What is the derivative of $f(x) = x^2 + 3x + 2$?');
+    },
+  },
+  {
+    name: 'reports a 429 as a rate limit with the retry delay, then succeeds',
+    run: async baseUrl => {
+      const extractor = new GeminiExtractor('mock-key', {
+        settings: { model: 'gemini-1.5-flash', baseUrl: `${baseUrl}/rate-limit@1` },
+      });
+      const canvas = createBlankCanvas(400, 300);
+      await assert.rejects(
+        extractor.extractMCQFromCanvas(canvas, questionBox, optionBoxes),
+        (error: unknown) => error instanceof RateLimitError && error.retryAfterMs === 1000
+      );
+      const retried = await extractor.extractMCQFromCanvas(canvas, questionBox, optionBoxes);
+      assert.strictEqual(retried.validationStatus, 'valid');
+    },
+  },
+  {
+    name: 'reports server errors and timeouts as retryable',
+    run: async baseUrl => {
+      for (const fault of ['server-error@1', 'timeout@1']) {
+        const extractor = new GeminiExtractor('mock-key', {
+          settings: { model: 'gemini-1.5-flash', baseUrl: `${baseUrl}/${fault}` },
+        });
+        await assert.rejects(
+          extractor.extractTextFromCanvas(createBlankCanvas(400, 80), questionBox, 'question'),
+          (error: unknown) => error instanceof RetryableError && !(error instanceof RateLimitError)
+        );
+      }
+    },
+  },
+  {
+    name: 'repairs a truncated JSON response',
+    run: async baseUrl => {
+      const extractor = new GeminiExtractor('mock-key', {
+        settings: { model: 'gemini-1.5-flash', baseUrl: `${baseUrl}/malformed@1` },
+      });
+      const result = await extractor.extractMCQFromCanvas(createBlankCanvas(400, 300), questionBox, optionBoxes);
+      assert.strictEqual(result.validationStatus, 'repaired');
+      assert.strictEqual(result.question, 'What is the derivative of $f(x) = x^2 + 3x + 2$?');
+      // The cut-off reply is caught by validation and fixed by a repair prompt
+      assert.ok((result.usage?.requests ?? 0) > 1);
+    },
+  },
+];
+
+const main = async () => {
+  setCanvasFactory(createBlankCanvas);
+  // The extractor logs every failure it reports; the checks expect them
+  console.error = () => undefined;
+  console.warn = () => undefined;
+
+  const server = await startMockServer();
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  let failures = 0;
+  try {
+    for (const check of checks) {
+      try {
+        await check.run(baseUrl);
+        process.stdout.write(`ok - ${check.name}\n`);
+      } catch (error) {
+        failures++;
+        process.stdout.write(`not ok - ${check.name}\n  ${(error as Error).message}\n`);
+      }
+    }
+  } finally {
+    server.close();
+  }
+
+  process.stdout.write(`${checks.length - failures} of ${checks.length} checks passed\n`);
+  if (failures > 0) {
+    process.exitCode = 1;
+  }
+};
+
+main();